@@ -0,0 +1,395 @@
+/**
+ * Repository Drill-Down Page - Scorecard, README outline, tooling and timeline
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import ThemeToggle from '@/components/ThemeToggle';
+
+interface RepoScoreCategory {
+  id: string;
+  name: string;
+  score: number;
+  weight: number;
+  detail: string;
+}
+
+interface RepoSuggestion {
+  title: string;
+  category: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+interface RepoDetail {
+  user: { login: string; avatar_url: string };
+  repo: {
+    name: string;
+    description: string | null;
+    stars: number;
+    forks: number;
+    language: string | null;
+    topics: string[];
+    updated_at: string;
+    created_at: string;
+    has_readme: boolean;
+    readme_length?: number;
+    readme_file?: string;
+    readme_format?: string;
+    is_fork: boolean;
+    open_issues: number;
+    authored_commit_count?: number;
+    homepage?: string | null;
+    code_quality?: {
+      evidence?: Record<string, string[]>;  // Files that triggered each check
+      ecosystems?: string[];
+    };
+  };
+  scorecard: {
+    repo: string;
+    score: number;
+    inspected: boolean;
+    categories: RepoScoreCategory[];
+    suggestions: RepoSuggestion[];
+    tooling: string[];
+  };
+  readme: {
+    sections: Array<{ level: number; text: string; length: number }>;
+    checks: Record<string, boolean>;
+    missing: string[];
+    boilerplate: string | null;
+    score: number;
+  } | null;
+  commitTimeline: Array<{ month: string; count: number }>;
+  fetchMode: 'graphql' | 'rest';
+  fetchedAt: string;
+}
+
+// Labels of the code quality checks shown with their evidence
+const QUALITY_CHECK_LABELS: Record<string, string> = {
+  hasCI: 'CI',
+  hasTests: 'Tests',
+  hasTypeScript: 'TypeScript',
+  hasLinting: 'Linting',
+};
+
+// Display order and labels of the README analyzer checks
+const README_CHECK_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  installation: 'Installation',
+  usage: 'Usage',
+  screenshots: 'Screenshots',
+  techStack: 'Tech stack',
+  demoLink: 'Live demo',
+  license: 'License',
+  contributing: 'Contributing',
+};
+
+const scoreColor = (score: number) =>
+  score >= 70 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+
+const priorityStyles: Record<RepoSuggestion['priority'], string> = {
+  high: 'bg-red-500/10 text-red-500',
+  medium: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-500',
+  low: 'bg-border-subtle text-text-secondary',
+};
+
+export default function RepoPage() {
+  const params = useParams();
+  const router = useRouter();
+  const username = params.username as string;
+  const repoName = decodeURIComponent(params.repo as string);
+
+  const [detail, setDetail] = useState<RepoDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!username || !repoName) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const refresh = params.get('refresh') === '1';
+    const tz = params.get('tz');
+    setIsLoading(true);
+
+    fetch(`/api/analyze/repo?username=${username}&repo=${encodeURIComponent(repoName)}${refresh ? '&refresh=1' : ''}${tz ? `&tz=${encodeURIComponent(tz)}` : ''}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          // Rate-limited: show the reset time in the visitor's own timezone
+          if (data.resetAt) {
+            const resetTime = new Date(data.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            throw new Error(`GitHub API rate limit exceeded. Try again at ${resetTime}.`);
+          }
+          throw new Error(data.error || 'Analysis Failed');
+        }
+        setDetail(data);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [username, repoName]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-page text-text-primary flex flex-col items-center justify-center p-8 font-mono">
+        <div className="w-full max-w-md space-y-4">
+          <div className="flex justify-between text-xs text-text-tertiary uppercase tracking-widest">
+            <span>System</span>
+            <span>Inspecting repository...</span>
+          </div>
+          <div className="h-1 bg-border-subtle rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 w-1/2 animate-[shimmer_2s_infinite]" />
+          </div>
+          <p className="text-xs text-green-500">&gt; Loading {username}/{repoName}...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8 bg-page">
+        <div className="max-w-md w-full border border-red-500/30 bg-red-500/10 p-8 rounded-lg space-y-4">
+          <div className="text-red-500 font-mono text-xs uppercase tracking-widest">System Error</div>
+          <h2 className="text-2xl font-bold text-text-primary">Repository Unavailable</h2>
+          <p className="text-text-secondary font-mono text-sm">{error}</p>
+          <button
+            onClick={() => router.push(`/analyze/${username}`)}
+            className="w-full py-3 bg-text-primary text-page font-semibold text-sm hover:opacity-90 transition-opacity"
+          >
+            BACK TO PROFILE
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!detail) return null;
+
+  const { repo, scorecard } = detail;
+  const maxCommits = Math.max(1, ...detail.commitTimeline.map(m => m.count));
+  const totalCommits = detail.commitTimeline.reduce((sum, m) => sum + m.count, 0);
+
+  return (
+    <div className="min-h-screen bg-page text-text-primary p-4 md:p-8 font-sans transition-colors duration-300">
+      <div className="max-w-5xl mx-auto space-y-6">
+
+        {/* Navigation Bar */}
+        <nav className="flex items-center justify-between border-b border-border-subtle pb-4">
+          <button
+            onClick={() => router.push(`/analyze/${username}`)}
+            className="text-text-tertiary hover:text-text-primary text-xs font-mono uppercase tracking-widest transition-colors"
+          >
+            ← Back to @{username}
+          </button>
+          <div className="flex gap-4 items-center">
+            <ThemeToggle />
+            <a href={`https://github.com/${username}/${repo.name}`} target="_blank" className="text-text-tertiary hover:text-text-primary text-xs font-mono uppercase tracking-widest transition-colors">
+              View on GitHub ↗
+            </a>
+          </div>
+        </nav>
+
+        {/* Header + Score */}
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-6">
+          <div className="md:col-span-8 card p-6 space-y-3 bg-card border-border-subtle">
+            <div className="flex items-center gap-3">
+              <img src={detail.user.avatar_url} alt={detail.user.login} className="w-8 h-8 rounded-full border border-border-subtle" />
+              <h1 className="text-2xl font-bold font-mono text-text-primary break-all">
+                <span className="text-text-tertiary">{detail.user.login}/</span>{repo.name}
+              </h1>
+            </div>
+            <p className="text-sm text-text-secondary">{repo.description || 'No description provided.'}</p>
+            <div className="flex flex-wrap gap-2 text-xs text-text-secondary">
+              {repo.language && <span className="px-2 py-0.5 rounded border border-border-subtle">{repo.language}</span>}
+              {repo.is_fork && (
+                <span className="px-2 py-0.5 rounded border border-border-highlight">
+                  {(repo.authored_commit_count || 0) > 0 ? 'CONTRIBUTED FORK' : 'FORK'}
+                </span>
+              )}
+              {repo.topics.map(topic => (
+                <span key={topic} className="px-2 py-0.5 rounded bg-blue-500/10 text-blue-500">{topic}</span>
+              ))}
+            </div>
+            {repo.homepage && (
+              <a href={repo.homepage} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-500 hover:underline break-all">
+                {repo.homepage}
+              </a>
+            )}
+          </div>
+
+          <div className="md:col-span-4 card p-6 flex flex-col items-center justify-center bg-card border-border-subtle">
+            <span className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Repo Score</span>
+            <div className="flex items-end gap-1 mt-2">
+              <span className="text-6xl font-bold font-mono text-text-primary">{scorecard.score}</span>
+              <span className="text-text-tertiary text-lg mb-2">/100</span>
+            </div>
+            {!scorecard.inspected && (
+              <span className="text-[10px] text-text-tertiary uppercase tracking-wider mt-2 text-center">
+                Tooling not inspected
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Scorecard Categories */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {scorecard.categories.map(category => (
+            <div key={category.id} className="card p-5 space-y-3 hover:bg-card-hover transition-colors">
+              <div className="flex justify-between items-start">
+                <h3 className="text-sm font-medium text-text-secondary">{category.name}</h3>
+                <span className="font-mono text-xs text-text-tertiary">{category.weight}%</span>
+              </div>
+              <div className="flex items-end gap-2">
+                <span className="text-3xl font-bold font-mono text-text-primary">{category.score}</span>
+                <span className="text-text-tertiary text-sm mb-1">/100</span>
+              </div>
+              <div className="w-full h-1 bg-border-subtle rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${scoreColor(category.score)}`} style={{ width: `${category.score}%` }} />
+              </div>
+              <p className="text-xs text-text-secondary">{category.detail}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Suggestions */}
+          <div className="card p-6 space-y-4 bg-card border-border-subtle">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Suggestions</h3>
+            {scorecard.suggestions.length === 0 ? (
+              <p className="text-sm text-text-secondary">Nothing to fix - this repository is in great shape.</p>
+            ) : (
+              <ul className="space-y-3">
+                {scorecard.suggestions.map((suggestion, idx) => (
+                  <li key={idx} className="flex items-start gap-3 text-sm">
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded shrink-0 ${priorityStyles[suggestion.priority]}`}>
+                      {suggestion.priority}
+                    </span>
+                    <span className="text-text-primary">{suggestion.title}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Detected Tooling */}
+          <div className="card p-6 space-y-4 bg-card border-border-subtle">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Detected Tooling</h3>
+              {repo.code_quality?.ecosystems && repo.code_quality.ecosystems.length > 0 && (
+                <span className="text-[10px] text-text-tertiary font-mono">{repo.code_quality.ecosystems.join(' · ')}</span>
+              )}
+            </div>
+            {!scorecard.inspected ? (
+              <p className="text-sm text-text-secondary">
+                This repository was outside the detailed inspection set, so its tooling was not checked.
+              </p>
+            ) : scorecard.tooling.length === 0 ? (
+              <p className="text-sm text-text-secondary">No CI, tests, linting or infrastructure files detected.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {scorecard.tooling.map(tool => (
+                  <span key={tool} className="text-xs px-2 py-1 rounded border border-border-highlight text-text-primary font-mono">
+                    {tool}
+                  </span>
+                ))}
+              </div>
+            )}
+            {/* Files behind each code quality check */}
+            {repo.code_quality?.evidence && (
+              <ul className="space-y-1 text-xs">
+                {Object.entries(QUALITY_CHECK_LABELS)
+                  .filter(([check]) => repo.code_quality?.evidence?.[check]?.length)
+                  .map(([check, label]) => (
+                    <li key={check} className="text-text-secondary">
+                      <span className="text-text-tertiary uppercase tracking-wider text-[10px] font-bold mr-2">{label}</span>
+                      <span className="font-mono">{repo.code_quality?.evidence?.[check].join(', ')}</span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+
+          {/* README Analysis */}
+          <div className="card p-6 space-y-4 bg-card border-border-subtle">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">README Outline</h3>
+              {detail.readme && (
+                <span className="text-[10px] text-text-tertiary font-mono" title={repo.readme_format}>
+                  {repo.readme_file} · {detail.readme.score}/100
+                </span>
+              )}
+            </div>
+            {detail.readme?.boilerplate && (
+              <p className="text-xs text-red-500 bg-red-500/10 border border-red-500/20 rounded p-2">
+                Untouched {detail.readme.boilerplate} template README - it says nothing about this project.
+              </p>
+            )}
+            {detail.readme && (
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(README_CHECK_LABELS).map(([check, label]) => (
+                  <span
+                    key={check}
+                    className={`text-[10px] px-1.5 py-0.5 rounded border ${
+                      detail.readme?.checks[check]
+                        ? 'bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-500'
+                        : 'bg-border-subtle border-border-highlight text-text-tertiary line-through'
+                    }`}
+                  >
+                    {label}
+                  </span>
+                ))}
+              </div>
+            )}
+            {!detail.readme || detail.readme.sections.length === 0 ? (
+              <p className="text-sm text-text-secondary">
+                {!repo.has_readme ? 'No README found.' : !detail.readme ? 'README text was not fetched for this repository.' : 'No headings found.'}
+              </p>
+            ) : (
+              <ul className="space-y-1 text-sm font-mono">
+                {detail.readme.sections.map((heading, idx) => (
+                  <li
+                    key={idx}
+                    className={heading.level === 1 ? 'text-text-primary font-bold' : 'text-text-secondary'}
+                    style={{ paddingLeft: `${(heading.level - 1) * 12}px` }}
+                  >
+                    {heading.text}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Commit Timeline */}
+          <div className="card p-6 space-y-4 bg-card border-border-subtle">
+            <div className="flex justify-between items-center">
+              <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Commit Timeline</h3>
+              <span className="text-[10px] text-text-tertiary font-mono">{totalCommits} commits · 12 months</span>
+            </div>
+            {totalCommits === 0 ? (
+              <p className="text-sm text-text-secondary">No commits recorded in the last 12 months.</p>
+            ) : (
+              <div className="flex items-end gap-1 h-32">
+                {detail.commitTimeline.map(month => (
+                  <div key={month.month} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${month.month}: ${month.count} commits`}>
+                    <div
+                      className="w-full bg-blue-600 dark:bg-white rounded-sm"
+                      style={{ height: `${(month.count / maxCommits) * 100}%`, minHeight: month.count > 0 ? '2px' : 0 }}
+                    />
+                    <span className="text-[9px] text-text-tertiary font-mono">{month.month.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <p className="text-[10px] text-text-tertiary font-mono uppercase tracking-wider text-right">
+          Data fetched {new Date(detail.fetchedAt).toLocaleString()} · {detail.fetchMode === 'graphql' ? 'Fast mode' : 'Compatibility mode'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -7,14 +7,36 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import ThemeToggle from '@/components/ThemeToggle';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import ScoreTrend from '@/components/ScoreTrend';
+import ScoreSimulator from '@/components/ScoreSimulator';
 
 // ... (Interfaces remain the same)
+interface ScoreLedgerEntry {
+  ruleId: string;
+  type: string;
+  inputs: Record<string, number | string>;
+  detail: string;
+  points: number;
+  possible: number;
+  repos: string[];
+}
+
 interface ScoreDimension {
   name: string;
   score: number;
   weight: number;
   feedback: string;
   whyItMatters: string;
+  ledger?: ScoreLedgerEntry[]; // Explanation trace, rule by rule
+}
+
+interface RoleScore {
+  role: string;
+  name: string;
+  score: number;
+  fit: number;
+  fitDimension: ScoreDimension;
 }
 
 interface RedFlag {
@@ -42,12 +64,65 @@ interface Repository {
   authored_commit_count?: number;
 }
 
+interface RepoScorecard {
+  repo: string;
+  score: number;
+  inspected: boolean;
+  suggestions: Array<{ title: string; category: string; priority: string }>;
+}
+
+interface LanguageStat {
+  bytes: number;
+  repos: number;
+  color: string | null;  // GitHub linguist color
+}
+
+// Used when GitHub has no color for a language (REST fallback)
+const FALLBACK_LANGUAGE_COLORS = ['#3b82f6', '#facc15', '#ef4444', '#a855f7', '#22c55e'];
+
+/**
+ * Languages by share of bytes (repo counts when no byte sizes are known), largest first
+ */
+const languageBreakdown = (stats: Record<string, LanguageStat> = {}) => {
+  const entries = Object.entries(stats);
+  const totalBytes = entries.reduce((sum, [, s]) => sum + s.bytes, 0);
+  const totalRepos = entries.reduce((sum, [, s]) => sum + s.repos, 0);
+  return entries
+    .map(([name, s]) => ({
+      name,
+      repos: s.repos,
+      percent: totalBytes > 0 ? (s.bytes / totalBytes) * 100 : (s.repos / (totalRepos || 1)) * 100,
+    }))
+    .sort((a, b) => b.percent - a.percent)
+    .map((lang, index) => ({
+      ...lang,
+      color: stats[lang.name].color || FALLBACK_LANGUAGE_COLORS[index % FALLBACK_LANGUAGE_COLORS.length],
+    }));
+};
+
+interface TechStackSummary {
+  nodes: Array<{ name: string; category: 'framework' | 'testRunner' | 'orm' | 'cloudSdk'; ecosystem: string; repos: string[] }>;
+}
+
+const TECH_CATEGORIES: Array<{ id: TechStackSummary['nodes'][number]['category']; label: string }> = [
+  { id: 'framework', label: 'Frameworks' },
+  { id: 'testRunner', label: 'Test Runners' },
+  { id: 'orm', label: 'ORMs & Data' },
+  { id: 'cloudSdk', label: 'Cloud SDKs' },
+];
+
 interface ProjectIdea {
   title: string;
   description: string;
   techStack: string[];
 }
 
+interface ProgressEvent {
+  phase: string;
+  message: string;
+  data?: any;
+}
+
 interface AnalysisResult {
   user: {
     login: string;
@@ -67,6 +142,9 @@ interface AnalysisResult {
   };
   score: number;
   profileType?: string;  // NEW: student/professional/open-source
+  role?: string | null;  // Role track the score was computed for (?role=)
+  suggestedRole?: string | null; // Best-fit role track
+  roleScores?: RoleScore[];      // Score under every role track
   badges?: string[];     // NEW: Gamification
   profileTag?: string;   // NEW: Sarcastic tag
   projectIdeas?: ProjectIdea[]; // NEW: Tech-stack based ideas
@@ -80,10 +158,18 @@ interface AnalysisResult {
     currentStreak: number;
     longestStreak: number;
     totalContributions: number;
+    source?: 'contributions' | 'commits'; // Contribution calendar, or own commits (REST approximation)
+    timeZone?: string;                    // IANA timezone days and streaks were computed in
+    timeZoneSource?: 'request' | 'location' | 'default';
+    weeklyCadence?: number[];             // Contributions per week, oldest first
+    contributions?: { commits: number; pullRequests: number; issues: number; reviews: number; restricted: number };
+    heatmap?: { date: string; count: number }[];               // 53 Sunday-started weeks, oldest first
+    gaps?: { from: string; to: string; weeks: number }[];      // Quiet stretches in the heatmap window
+    monthly?: { month: string; commits: number; pullRequests: number; issues: number }[];
   };
   
   dimensions: ScoreDimension[];
-  redFlags?: RedFlag[];  // OPTIONAL: Old scoring engine only
+  redFlags?: RedFlag[];  // Scoring red flags + prompt-injection attempts
   topSuggestions?: Array<{  // NEW: From new scoring engine
     id: string;
     title: string;
@@ -94,6 +180,8 @@ interface AnalysisResult {
     priority: string;
   }>;
   topRepos: Repository[];
+  repoScorecards?: RepoScorecard[]; // Per-repo scorecard for every analyzed repo
+  techStack?: TechStackSummary;     // Technologies parsed from dependency manifests
   strengths: string[];
   suggestions: Suggestion[];
   recruiterPerspective: string;
@@ -104,13 +192,58 @@ interface AnalysisResult {
     originalRepos: number;
     totalStars: number;
     languages: string[];
-    topLanguages?: Record<string, number>; // Language distribution
+    topLanguages?: Record<string, LanguageStat>; // Byte-weighted language distribution
     lastCommitDate: string | null;
     fetchMode?: 'graphql' | 'rest'; // Which API was used
+    rubricVersion?: string; // Scoring rubric the score was computed with
     aiModel?: string; // NEW: Hybrid AI tracking
+    aiPending?: boolean; // Partial (streamed) result - AI section still running
+    aiValidation?: {     // Schema validation outcome for the AI response
+      status: 'valid' | 'coerced' | 'repaired' | 'failed';
+      errors: string[];
+      coercions: string[];
+    };
+    cache?: {
+      data: 'hit' | 'miss';
+      score: 'hit' | 'miss';
+      insights: 'hit' | 'miss' | 'pending';
+      fetchedAt: string;
+    };
   };
 }
 
+// GET /api/history response (snapshots oldest first)
+interface ScoreHistory {
+  snapshots: Array<{ takenAt: string; rubricVersion: string; score: number; dimensions: Array<{ name: string; score: number }> }>;
+  changes: Array<{
+    from: string;
+    to: string;
+    scoreDelta: number;
+    dimensions: Array<{ name: string; delta: number }>;
+    newRepos: string[];
+    removedRepos: string[];
+    newReadmes: string[];
+    newDeploys: string[];
+    resolvedSuggestions: string[];
+    rubricChanged: boolean;
+  }>;
+}
+
+// POST /api/suggestions/verify response
+interface Verification {
+  results: Array<{
+    id: string;
+    status: 'done' | 'failing' | 'unverifiable';
+    remaining: string[];
+    points: number;
+  }>;
+  score: number;
+  awardedPoints: number;
+  projectedScore: number;
+  rescoredScore: number;
+  verifiedAt: string;
+}
+
 export default function AnalyzePage() {
   const params = useParams();
   const router = useRouter();
@@ -119,47 +252,144 @@ export default function AnalyzePage() {
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState<ProgressEvent[]>([]);
+  const [history, setHistory] = useState<ScoreHistory | null>(null);
+  const [checked, setChecked] = useState<string[]>([]);
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
 
+  // Ticked checklist items survive reloads, per profile
   useEffect(() => {
     if (!username) return;
+    try {
+      setChecked(JSON.parse(localStorage.getItem(`checklist:${username.toLowerCase()}`) || '[]'));
+    } catch {
+      setChecked([]);
+    }
+  }, [username]);
+
+  const toggleChecked = (id: string) => {
+    const next = checked.includes(id) ? checked.filter(c => c !== id) : [...checked, id];
+    setChecked(next);
+    localStorage.setItem(`checklist:${username.toLowerCase()}`, JSON.stringify(next));
+  };
 
-    const fetchAnalysis = async () => {
-      try {
-        setIsLoading(true);
-        const response = await fetch(`/api/analyze?username=${username}`);
-        const data = await response.json();
-
-        if (!response.ok) throw new Error(data.error || 'Analysis Failed');
-        setResult(data);
-      } catch (err: any) {
-        setError(err.message);
-      } finally {
-        setIsLoading(false);
+  // Re-fetch the ticked items' repos and check which suggestions are now done
+  const verifyChecked = async () => {
+    const params = new URLSearchParams(window.location.search);
+    setIsVerifying(true);
+    setVerifyError(null);
+    try {
+      const response = await fetch('/api/suggestions/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, ids: checked, role: params.get('role'), tz: params.get('tz') }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const resetTime = data.resetAt && new Date(data.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        throw new Error(resetTime ? `GitHub API rate limit exceeded. Try again at ${resetTime}.` : data.error);
       }
+      setVerification(data);
+    } catch (err: any) {
+      setVerifyError(err.message || 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!username) return;
+
+    // Pass ?refresh=1, ?role= and ?tz= through so a shared link can force a re-fetch, a role track or a timezone
+    const params = new URLSearchParams(window.location.search);
+    const refresh = params.get('refresh') === '1';
+    const role = params.get('role');
+    const tz = params.get('tz');
+    const source = new EventSource(
+      `/api/analyze/stream?username=${username}${refresh ? '&refresh=1' : ''}${role ? `&role=${encodeURIComponent(role)}` : ''}${tz ? `&tz=${encodeURIComponent(tz)}` : ''}`
+    );
+
+    setIsLoading(true);
+    setProgress([]);
+
+    const appendProgress = (event: MessageEvent) => {
+      const data = JSON.parse(event.data) as ProgressEvent;
+      setProgress(prev => [...prev, data]);
+      return data;
     };
 
-    fetchAnalysis();
+    ['cache', 'user', 'repos', 'fetch-mode', 'ai-provider'].forEach(phase => {
+      source.addEventListener(phase, appendProgress);
+    });
+
+    // Scores arrive before the AI section - render them right away
+    source.addEventListener('score', (event: MessageEvent) => {
+      const data = appendProgress(event);
+      setResult(data.data.partial);
+      setIsLoading(false);
+    });
+
+    source.addEventListener('result', (event: MessageEvent) => {
+      const data = JSON.parse(event.data) as ProgressEvent;
+      setResult(data.data);
+      setIsLoading(false);
+      source.close();
+
+      // Score history includes the snapshot this analysis just recorded
+      fetch(`/api/history?username=${username}${role ? `&role=${encodeURIComponent(role)}` : ''}`)
+        .then(response => (response.ok ? response.json() : null))
+        .then(setHistory)
+        .catch(() => setHistory(null));
+    });
+
+    source.addEventListener('error', (event: Event) => {
+      // Connection-level errors carry no payload
+      if (!(event instanceof MessageEvent) || !event.data) {
+        setError('Connection to analysis stream lost');
+      } else {
+        const data = JSON.parse(event.data) as ProgressEvent;
+        // Rate-limited: show the reset time in the visitor's own timezone
+        if (data.data?.resetAt) {
+          const resetTime = new Date(data.data.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+          setError(`GitHub API rate limit exceeded. Try again at ${resetTime}.`);
+        } else {
+          setError(data.message || 'Analysis Failed');
+        }
+      }
+      setIsLoading(false);
+      source.close();
+    });
+
+    return () => source.close();
   }, [username]);
 
-  // Loading Screen - Terminal Style
+  // Loading Screen - Terminal Style (live pipeline events)
   if (isLoading) {
+    const phaseColors: Record<string, string> = {
+      'cache': 'text-text-tertiary',
+      'fetch-mode': 'text-yellow-500',
+      'ai-provider': 'text-blue-400',
+    };
+
     return (
       <div className="min-h-screen bg-page text-text-primary flex flex-col items-center justify-center p-8 font-mono">
         <div className="w-full max-w-md space-y-4">
           <div className="flex justify-between text-xs text-text-tertiary uppercase tracking-widest">
             <span>System</span>
-            <span>Initializing...</span>
+            <span>{progress.length > 0 ? progress[progress.length - 1].phase : 'Initializing'}...</span>
           </div>
           <div className="h-1 bg-border-subtle rounded-full overflow-hidden">
             <div className="h-full bg-blue-600 w-1/2 animate-[shimmer_2s_infinite]" />
           </div>
           <div className="space-y-1 text-xs text-green-500 font-mono">
             <p>&gt; Establishing secure uplink to GitHub...</p>
-            <p className="delay-100 animate-fade-in">&gt; Downloading repository metadata [==================]</p>
-            <p className="delay-200 animate-fade-in">&gt; Analyzing commit patterns & code frequency...</p>
-            <p className="delay-300 animate-fade-in text-blue-400">&gt; Running recruiter simulation algorithm...</p>
-            <p className="delay-500 animate-fade-in text-yellow-500">&gt; DETECTING ANOMALIES...</p>
-            <p className="delay-700 animate-fade-in text-green-500 font-bold">&gt; OPTIMIZATION MATRIX GENERATED.</p>
+            {progress.map((event, idx) => (
+              <p key={idx} className={`animate-fade-in ${phaseColors[event.phase] || ''}`}>
+                &gt; {event.message}
+              </p>
+            ))}
           </div>
         </div>
       </div>
@@ -231,6 +461,17 @@ export default function AnalyzePage() {
                </span>
              )}
              
+             {/* Cache Indicator - cached reports can be re-run on demand */}
+             {result.metadata.cache?.data === 'hit' && (
+               <a
+                 href={`/analyze/${username}?refresh=1`}
+                 title={`Data fetched ${new Date(result.metadata.cache.fetchedAt).toLocaleString()}`}
+                 className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded bg-border-subtle text-text-secondary border border-border-highlight hover:text-text-primary transition-colors"
+               >
+                 ↻ Cached · Refresh
+               </a>
+             )}
+
              <ThemeToggle />
              
              <button
@@ -376,7 +617,9 @@ export default function AnalyzePage() {
                <div className="text-8xl font-bold tracking-tighter text-text-primary">
                  {result.score ?? 0}
                </div>
-               <div className="text-xs text-text-secondary font-mono">/ 100 POINTS</div>
+               <div className="text-xs text-text-secondary font-mono">
+                 / 100 POINTS{result.metadata.rubricVersion && ` · RUBRIC v${result.metadata.rubricVersion}`}
+               </div>
                
                {/* Score Indicator Line */}
                <div className="w-full h-1 bg-border-subtle mt-4 rounded-full overflow-hidden">
@@ -387,9 +630,53 @@ export default function AnalyzePage() {
                </div>
             </div>
 
-             {/* Red Flags - DEPRECATED: New scoring engine uses suggestions instead
-            {result.redFlags.length > 0 && (
-              <div className="card p-6 space-y-4 border-red-900/30 bg-red-950/10">
+            {/* Role Tracks - score per role, best fit suggested, click to re-score */}
+            {result.roleScores && result.roleScores.length > 0 && (
+              <div className="card p-6 space-y-4 bg-card border-border-subtle">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Role Tracks</h3>
+                  {result.role && (
+                    <a href={`/analyze/${username}`} className="text-[10px] text-text-secondary hover:text-text-primary uppercase tracking-wider">
+                      Clear role
+                    </a>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  {result.roleScores.map((roleScore) => (
+                    <a
+                      key={roleScore.role}
+                      href={`/analyze/${username}?role=${roleScore.role}`}
+                      title={`${roleScore.fitDimension.name}: ${roleScore.fitDimension.score}/100 · ${roleScore.fitDimension.feedback}`}
+                      className={`block space-y-1 rounded p-2 -mx-2 transition-colors hover:bg-card-hover ${
+                        result.role === roleScore.role ? 'bg-card-hover' : ''
+                      }`}
+                    >
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-text-primary font-medium flex items-center gap-2">
+                          {roleScore.name}
+                          {result.suggestedRole === roleScore.role && (
+                            <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-500">
+                              Best fit
+                            </span>
+                          )}
+                        </span>
+                        <span className="font-mono text-text-primary">{roleScore.score}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1 bg-border-subtle rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600 dark:bg-white" style={{ width: `${roleScore.score}%` }} />
+                        </div>
+                        <span className="text-[10px] text-text-tertiary font-mono w-14 text-right">{roleScore.fit}% fit</span>
+                      </div>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Red Flags - scoring engine flags and prompt-injection attempts */}
+            {result.redFlags && result.redFlags.length > 0 && (
+              <div className="card p-6 space-y-4 border-red-500/30 bg-red-500/5">
                 <h3 className="text-red-500 text-xs font-bold uppercase tracking-widest flex items-center gap-2">
                   <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
                   System Alerts Detected
@@ -397,14 +684,13 @@ export default function AnalyzePage() {
                 <div className="space-y-3">
                   {result.redFlags.map((flag, idx) => (
                     <div key={idx} className="text-sm">
-                      <span className="text-white font-medium block">{flag.title}</span>
-                      <span className="text-red-400/60 text-xs">{flag.description}</span>
+                      <span className="text-text-primary font-medium block">{flag.title}</span>
+                      <span className="text-red-500/80 text-xs">{flag.description}</span>
                     </div>
                   ))}
                 </div>
               </div>
             )}
-            */}
           </div>
 
           {/* RIGHT COLUMN: Metrics & Insights (8 cols) */}
@@ -463,39 +749,22 @@ export default function AnalyzePage() {
                 <h3 className="text-sm font-bold text-text-secondary mb-3 text-blue-500">Language Distribution</h3>
                 <div className="space-y-4">
                     <div className="flex h-3 w-full overflow-hidden rounded-full bg-border-subtle/30">
-                    {Object.entries(result.metadata.topLanguages || {})
-                        .sort(([, a], [, b]) => (b as number) - (a as number))
-                        .slice(0, 5)
-                        .map(([lang, count], index) => {
-                        const total = Object.values(result.metadata.topLanguages || {}).reduce((sum, c) => (sum as number) + (c as number), 0) as number;
-                        const percent = ((count as number) / total) * 100;
-                        const colors = ['bg-blue-500', 'bg-yellow-400', 'bg-red-500', 'bg-purple-500', 'bg-green-500'];
-                        return (
-                            <div 
-                            key={lang} 
-                            className={`${colors[index % colors.length]}`} 
-                            style={{ width: `${percent}%` }}
-                            />
-                        );
-                        })}
+                    {languageBreakdown(result.metadata.topLanguages).slice(0, 5).map(lang => (
+                        <div
+                        key={lang.name}
+                        title={`${lang.name} ${lang.percent.toFixed(1)}%`}
+                        style={{ width: `${lang.percent}%`, backgroundColor: lang.color }}
+                        />
+                    ))}
                     </div>
                     <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(result.metadata.topLanguages || {})
-                        .sort(([, a], [, b]) => (b as number) - (a as number))
-                        .slice(0, 4)
-                        .map(([lang, count], index) => {
-                        const total = Object.values(result.metadata.topLanguages || {}).reduce((sum, c) => (sum as number) + (c as number), 0) as number;
-                        const percent = ((count as number) / total) * 100;
-                        const colors = ['text-blue-500', 'text-yellow-400', 'text-red-500', 'text-purple-500', 'text-green-500'];
-                        const dotColors = ['bg-blue-500', 'bg-yellow-400', 'bg-red-500', 'bg-purple-500', 'bg-green-500'];
-                        return (
-                            <div key={lang} className="flex items-center gap-2 text-xs">
-                            <div className={`w-2 h-2 rounded-full ${dotColors[index % dotColors.length]}`} />
-                            <span className="text-text-secondary truncate">{lang}</span>
-                            <span className="text-text-primary font-mono ml-auto">{percent.toFixed(1)}%</span>
-                            </div>
-                        );
-                        })}
+                    {languageBreakdown(result.metadata.topLanguages).slice(0, 4).map(lang => (
+                        <div key={lang.name} className="flex items-center gap-2 text-xs" title={`${lang.repos} repo${lang.repos === 1 ? '' : 's'}`}>
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: lang.color }} />
+                        <span className="text-text-secondary truncate">{lang.name}</span>
+                        <span className="text-text-primary font-mono ml-auto">{lang.percent.toFixed(1)}%</span>
+                        </div>
+                    ))}
                     </div>
                 </div>
                 </div>
@@ -506,7 +775,9 @@ export default function AnalyzePage() {
                     <div className="text-center">
                         <div className="text-2xl font-bold text-text-primary">{result.activity.totalContributions || result.activity.totalCommits}</div>
                         <div className="text-[10px] text-text-tertiary uppercase tracking-wider mt-1">Total Contributions</div>
-                        <div className="text-[10px] text-text-tertiary opacity-50">Last 6 Months</div>
+                        <div className="text-[10px] text-text-tertiary opacity-50">
+                          {result.activity.source === 'contributions' ? 'Contribution calendar' : 'Approx. from own commits'}
+                        </div>
                     </div>
                     <div className="relative w-16 h-16 flex items-center justify-center">
                         <svg className="w-full h-full transform -rotate-90">
@@ -529,10 +800,117 @@ export default function AnalyzePage() {
                         <div className="text-[10px] text-text-tertiary uppercase tracking-wider">Active Days</div>
                     </div>
                 </div>
+                {result.activity.weeklyCadence && result.activity.weeklyCadence.length > 0 && (
+                    <div className="border-t border-border-subtle pt-3 mt-3 space-y-1">
+                    <div className="flex items-end gap-px h-8">
+                        {result.activity.weeklyCadence.map((count, week) => {
+                        const max = Math.max(...result.activity.weeklyCadence!, 1);
+                        return (
+                            <div
+                            key={week}
+                            title={`${count} contributions`}
+                            className={`flex-1 rounded-sm ${count > 0 ? 'bg-orange-500' : 'bg-border-subtle'}`}
+                            style={{ height: `${Math.max(8, (count / max) * 100)}%` }}
+                            />
+                        );
+                        })}
+                    </div>
+                    <div className="text-[10px] text-text-tertiary uppercase tracking-wider text-center">Weekly Cadence · 52 weeks</div>
+                    {result.activity.contributions && (
+                        <div className="text-[10px] text-text-tertiary text-center font-mono">
+                        {result.activity.contributions.commits} commits · {result.activity.contributions.pullRequests} PRs · {result.activity.contributions.issues} issues · {result.activity.contributions.reviews} reviews
+                        {result.activity.contributions.restricted > 0 && ` · ${result.activity.contributions.restricted} private`}
+                        </div>
+                    )}
+                    </div>
+                )}
+                {result.activity.timeZone && (
+                    <div className="text-[10px] text-text-tertiary text-center opacity-70 mt-2">
+                    Days in {result.activity.timeZone}
+                    {result.activity.timeZoneSource === 'location' && ' (guessed from location)'}
+                    {result.activity.timeZoneSource === 'default' && ' (add ?tz= to change)'}
+                    </div>
+                )}
                 </div>
 
             </div>
             
+            {/* Score History (progress across analyses) */}
+            {history && history.snapshots.length > 0 && (
+              <div className="card p-5 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Score History</h3>
+                  <span className="text-xs text-text-secondary">
+                    {history.snapshots.length} snapshot{history.snapshots.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {history.snapshots.length > 1 ? (
+                  <ScoreTrend snapshots={history.snapshots} changes={history.changes} />
+                ) : (
+                  <div className="text-xs text-text-tertiary">
+                    First snapshot saved. Work through the quick wins, then re-run the analysis to see what changed.
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {/* Activity Timeline (what Coding Consistency is judged on) */}
+            {result.activity.heatmap && result.activity.heatmap.length > 0 && (
+              <div className="card p-5 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Activity Timeline</h3>
+                  <span className="text-xs text-text-secondary">
+                    {result.activity.source === 'commits' ? 'Own commits only (approximate)' : 'Contribution calendar'}
+                  </span>
+                </div>
+                <ActivityTimeline
+                  heatmap={result.activity.heatmap}
+                  monthly={result.activity.monthly || []}
+                  gaps={result.activity.gaps || []}
+                  approximate={result.activity.source === 'commits'}
+                />
+                <div className="text-[10px] text-text-tertiary">
+                  Coding Consistency is scored on how recently and how often you commit; gaps of 4+ weeks are outlined in red.
+                </div>
+              </div>
+            )}
+            
+            {/* Tech Stack (from dependency manifests) */}
+            {result.techStack && result.techStack.nodes.length > 0 && (
+              <div className="card p-5 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Tech Stack</h3>
+                  <span className="text-xs text-text-secondary">From dependency manifests</span>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {TECH_CATEGORIES.map(category => {
+                    const nodes = result.techStack!.nodes.filter(node => node.category === category.id);
+                    return (
+                      <div key={category.id} className="space-y-2">
+                        <div className="text-[10px] text-text-tertiary uppercase tracking-wider">{category.label}</div>
+                        {nodes.length === 0 ? (
+                          <div className="text-xs text-text-tertiary">None detected</div>
+                        ) : (
+                          <div className="flex flex-wrap gap-2">
+                            {nodes.map(node => (
+                              <span
+                                key={node.name}
+                                title={node.repos.join(', ')}
+                                className="text-xs px-2 py-1 rounded-md bg-card-subtle border border-border-subtle text-text-secondary"
+                              >
+                                {node.name}
+                                <span className="ml-1.5 font-mono text-text-tertiary">{node.repos.length}</span>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            
             {/* Metric Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {result.dimensions.map((dim, idx) => (
@@ -561,26 +939,87 @@ export default function AnalyzePage() {
                   <p className="text-xs text-text-secondary line-clamp-2 h-8">
                     {dim.feedback}
                   </p>
+
+                  {/* Explanation trace */}
+                  {dim.ledger && dim.ledger.length > 0 && (
+                    <details className="text-xs pt-2 border-t border-border-subtle">
+                      <summary className="cursor-pointer text-text-tertiary hover:text-text-primary uppercase tracking-wider text-[10px] font-bold">
+                        How this was calculated
+                      </summary>
+                      <div className="mt-3 space-y-2">
+                        {dim.ledger.map((entry) => (
+                          <div key={entry.ruleId} className="space-y-0.5">
+                            <div className="flex justify-between gap-2">
+                              <span className="text-text-secondary font-mono">{entry.ruleId}</span>
+                              <span className={`font-mono ${entry.points > 0 ? 'text-text-primary' : 'text-text-tertiary'}`}>
+                                {entry.points}/{entry.possible}
+                              </span>
+                            </div>
+                            <div className="text-text-tertiary font-mono text-[10px]">{entry.detail}</div>
+                            {entry.repos.length > 0 && (
+                              <div className="text-text-tertiary text-[10px] truncate" title={entry.repos.join(', ')}>
+                                {entry.repos.join(', ')}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
                 </div>
               ))}
             </div>
 
-            {/* NEW: Top Suggestions Cards (from new scoring engine) */}
+            {/* NEW: Top Suggestions Checklist (from new scoring engine) - tick items off, then Verify */}
             {result.topSuggestions && result.topSuggestions.length > 0 && (
               <div className="space-y-4 mt-6">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Top Improvements</h2>
-                  <span className="text-xs text-text-secondary">{result.topSuggestions.length} actionable</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-xs text-text-secondary">{result.topSuggestions.length} actionable</span>
+                    <button
+                      onClick={verifyChecked}
+                      disabled={isVerifying || checked.length === 0}
+                      className="px-3 py-1 text-xs font-bold rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {isVerifying ? 'Verifying...' : `Verify ${checked.length || ''}`.trim()}
+                    </button>
+                  </div>
                 </div>
+
+                {verifyError && <div className="text-xs text-red-500">{verifyError}</div>}
+                {verification && (
+                  <div className="card p-3 text-xs text-text-secondary flex flex-wrap gap-x-4 gap-y-1">
+                    <span>
+                      <span className="font-bold text-green-500">+{verification.awardedPoints} pts</span> verified
+                    </span>
+                    <span>Projected score <span className="font-mono text-text-primary">{verification.score} → {verification.projectedScore}</span></span>
+                    <span>Full rescore <span className="font-mono text-text-primary">{verification.rescoredScore}</span></span>
+                    <span className="text-text-tertiary">{new Date(verification.verifiedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                  </div>
+                )}
                 
                 <div className="space-y-3">
-                  {result.topSuggestions.map((suggestion, idx) => (
+                  {result.topSuggestions.map((suggestion, idx) => {
+                    const outcome = verification?.results.find(r => r.id === suggestion.id);
+                    return (
                     <div 
                       key={idx} 
-                      className="card p-4 space-y-2 hover:bg-card-hover transition-colors border-l-2 border-l-transparent hover:border-l-blue-500"
+                      className={`card p-4 space-y-2 hover:bg-card-hover transition-colors border-l-2 ${
+                        outcome?.status === 'done' ? 'border-l-green-500' :
+                        outcome?.status === 'failing' ? 'border-l-red-500' :
+                        'border-l-transparent hover:border-l-blue-500'
+                      }`}
                     >
                       <div className="flex justify-between items-start gap-3">
-                        <h3 className="text-sm font-medium text-text-primary flex-1">{suggestion.title}</h3>
+                        <input
+                          type="checkbox"
+                          checked={checked.includes(suggestion.id)}
+                          onChange={() => toggleChecked(suggestion.id)}
+                          className="mt-0.5 accent-blue-500"
+                          aria-label={`Mark "${suggestion.title}" as done`}
+                        />
+                        <h3 className={`text-sm font-medium flex-1 ${outcome?.status === 'done' ? 'text-text-tertiary line-through' : 'text-text-primary'}`}>{suggestion.title}</h3>
                         <span className="text-xs font-bold text-blue-400">+{suggestion.points} pts</span>
                       </div>
                       
@@ -600,12 +1039,38 @@ export default function AnalyzePage() {
                         <span>•</span>
                         <span className="text-text-tertiary">{suggestion.category}</span>
                       </div>
+
+                      {outcome && (
+                        <div className={`text-[11px] ${
+                          outcome.status === 'done' ? 'text-green-500' :
+                          outcome.status === 'failing' ? 'text-red-500' :
+                          'text-text-tertiary'
+                        }`}>
+                          {outcome.status === 'done' && `Verified: +${outcome.points} pts`}
+                          {outcome.status === 'failing' && (outcome.remaining.length > 0
+                            ? `Still failing: ${outcome.remaining.slice(0, 5).join(', ')}${outcome.remaining.length > 5 ? ` +${outcome.remaining.length - 5} more` : ''}`
+                            : 'Still failing')}
+                          {outcome.status === 'unverifiable' && 'Based on activity data - shows up after a refreshed analysis'}
+                        </div>
+                      )}
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             )}
 
+            {/* What-If Simulator (engine re-scores hypothetical changes) */}
+            {!result.metadata.aiPending && (
+              <div className="card p-5 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">What-If Simulator</h3>
+                  <span className="text-xs text-text-secondary">Real engine projections</span>
+                </div>
+                <ScoreSimulator username={username} />
+              </div>
+            )}
+
             {/* Recruiter Insight */}
             <div className="card p-6 border-blue-500/20 bg-blue-50 dark:bg-blue-900/10">
               <div className="flex items-center justify-between mb-4">
@@ -615,15 +1080,29 @@ export default function AnalyzePage() {
                 </h2>
                 {result.metadata.aiModel && (
                   <div className="px-3 py-1 bg-card border border-border-subtle rounded-full text-xs font-mono text-text-secondary flex items-center">
-                    <span className={`w-2 h-2 rounded-full mr-2 ${result.metadata.aiModel.includes('Cerebras') ? 'bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]' : 'bg-green-500'}`}></span>
+                    <span className={`w-2 h-2 rounded-full mr-2 ${result.metadata.aiModel.startsWith('cerebras/') ? 'bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]' : 'bg-green-500'}`}></span>
                     Powered by {result.metadata.aiModel}
+                    {result.metadata.aiValidation && result.metadata.aiValidation.status !== 'valid' && (
+                      <span
+                        className="ml-2 text-[10px] uppercase text-text-tertiary"
+                        title={[...result.metadata.aiValidation.errors, ...result.metadata.aiValidation.coercions].join('\n')}
+                      >
+                        ({result.metadata.aiValidation.status})
+                      </span>
+                    )}
                   </div>
                 )}
               </div>
               <div className="prose prose-invert max-w-none">
-                <p className="text-text-primary leading-relaxed font-light">
-                  "{result.recruiterPerspective}"
-                </p>
+                {result.metadata.aiPending ? (
+                  <p className="text-text-secondary font-mono text-xs animate-pulse">
+                    &gt; {progress.filter(e => e.phase === 'ai-provider').pop()?.message || 'Generating AI insights'}...
+                  </p>
+                ) : (
+                  <p className="text-text-primary leading-relaxed font-light">
+                    "{result.recruiterPerspective}"
+                  </p>
+                )}
               </div>
             </div>
 
@@ -656,7 +1135,9 @@ export default function AnalyzePage() {
             <div className="bg-card border border-border-subtle rounded-lg overflow-hidden">
               <div className="p-4 border-b border-border-subtle flex justify-between items-center bg-border-subtle/50">
                 <h3 className="text-sm font-bold uppercase tracking-widest text-text-primary">Optimization Protocol</h3>
-                <span className="text-xs font-mono text-text-secondary">{result.suggestions.length} ACTIONS PENDING</span>
+                <span className="text-xs font-mono text-text-secondary">
+                  {result.metadata.aiPending ? 'AWAITING AI...' : `${result.suggestions.length} ACTIONS PENDING`}
+                </span>
               </div>
               
               <div className="divide-y divide-border-subtle">
@@ -687,16 +1168,21 @@ export default function AnalyzePage() {
         <div className="space-y-4 pt-6 text-sm">
            <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Repository Analysis</h3>
            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-             {result.topRepos.map((repo, idx) => (
+             {result.topRepos.map((repo, idx) => {
+               const scorecard = result.repoScorecards?.find(card => card.repo === repo.name);
+               return (
                <a 
                  key={idx} 
-                 href={`https://github.com/${username}/${repo.name}`}
-                 target="_blank"
+                 href={`/analyze/${username}/${encodeURIComponent(repo.name)}`}
                  className="card p-4 hover:border-border-highlight group transition-colors bg-card"
                >
                  <div className="flex justify-between items-start mb-2">
                    <span className="font-mono text-blue-500 dark:text-blue-400 group-hover:text-blue-600 dark:group-hover:text-blue-300">{repo.name}</span>
-                   <span className="text-xs text-text-secondary">★ {repo.stars}</span>
+                   {scorecard ? (
+                     <span className="text-xs font-mono text-text-primary" title={`${scorecard.suggestions.length} suggestions`}>{scorecard.score}/100</span>
+                   ) : (
+                     <span className="text-xs text-text-secondary">★ {repo.stars}</span>
+                   )}
                  </div>
                  <p className="text-xs text-text-secondary mb-3 line-clamp-2 min-h-[2.5em]">
                    {repo.description || 'No description provided.'}
@@ -722,7 +1208,8 @@ export default function AnalyzePage() {
                   </div>
                 </div>
                </a>
-             ))}
+               );
+             })}
            </div>
         </div>
 
@@ -0,0 +1,77 @@
+/**
+ * Repository Drill-Down API Route
+ *
+ * Scorecard, README outline, detected tooling and commit timeline for a single
+ * repository, served from the same cached GitHub data as `GET /api/analyze`.
+ *
+ * Endpoint: GET /api/analyze/repo?username=<github_username>&repo=<repo_name>[&refresh=1][&tz=<iana_timezone>]
+ *
+ * Error Handling:
+ * - 400: Missing username or repo parameter, or unknown timezone
+ * - 404: The user has no repository with that name
+ * - 429: Every pooled GitHub token is rate-limited (includes `resetAt`)
+ * - 500: GitHub API errors or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisPipeline } from '@/lib/analysis-pipeline';
+import { GitHubTokenPool, RateLimitError } from '@/lib/github-token-pool';
+import { isTimeZone } from '@/lib/contribution-activity';
+
+/**
+ * GET Handler - Analyzes one repository of a GitHub profile
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const username = searchParams.get('username');
+    const repo = searchParams.get('repo');
+
+    if (!username || !repo) {
+      return NextResponse.json(
+        { error: 'GitHub username and repository name are required' },
+        { status: 400 }
+      );
+    }
+
+    const refresh = searchParams.get('refresh') === '1';
+    // ?tz= (or an X-Timezone header) sets the IANA timezone for days and streaks;
+    // without it the profile location is used as a guess, then UTC
+    const timeZone = searchParams.get('tz') || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
+
+    const detail = await AnalysisPipeline.repo(username, repo, { refresh, timeZone });
+
+    if (!detail) {
+      return NextResponse.json(
+        { error: `Repository "${repo}" not found for @${username}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(detail);
+  } catch (error: any) {
+    console.error('Repository analysis error:', error);
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          resetAt: error.resetAt,
+          tokenPool: GitHubTokenPool.getHealth(),
+        },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to analyze repository' },
+      { status: 500 }
+    );
+  }
+}
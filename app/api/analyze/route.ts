@@ -1,24 +1,39 @@
 /**
  * GitHub Portfolio Analysis API Route
  * 
- * This is the main API endpoint that orchestrates the complete analysis flow:
+ * This is the main API endpoint that orchestrates the complete analysis flow
+ * (see lib/analysis-pipeline.ts):
  * 1. Fetch GitHub data (GitHubService)
- * 2. Calculate portfolio scores (ScoringEngine)
+ * 2. Calculate portfolio scores and red flags (NewScoringEngine)
  * 3. Generate AI insights (AIAnalyzer)
  * 4. Return combined results
  * 
- * Endpoint: GET /api/analyze?username=<github_username>
+ * Endpoint: GET /api/analyze?username=<github_username>[&refresh=1][&role=<role>][&tz=<iana_timezone>]
+ *
+ * Caching: each stage (GitHub data, score, AI insights) is cached with its own
+ * TTL (see lib/analysis-cache.ts). `refresh=1` forces a full re-run.
+ *
+ * Roles: `role=frontend|backend|data-ml|mobile|devops` (see the rubric) scores
+ * against that role track. Every role's score and the suggested best-fit role
+ * are always reported in `roleScores` / `suggestedRole`.
+ *
+ * Timezone: `tz=Asia/Kolkata` (or an `X-Timezone` header) buckets activity
+ * days and streaks in that timezone; otherwise it is guessed from the profile
+ * location, falling back to UTC.
+ *
+ * For live progress use the streaming variant: GET /api/analyze/stream
  * 
  * Error Handling:
- * - 400: Missing username parameter
+ * - 400: Missing username parameter, unknown role or unknown timezone
+ * - 429: Every pooled GitHub token is rate-limited (includes `resetAt`)
  * - 500: GitHub API errors, AI errors, or other failures
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { GraphQLGitHubService } from '@/lib/graphql-github-service';
-import { GitHubService } from '@/lib/github-service';  // Fallback for GraphQL failures
-import { NewScoringEngine } from '@/lib/new-scoring-engine';
-import { AIAnalyzer } from '@/lib/ai-analyzer';
+import { AnalysisPipeline } from '@/lib/analysis-pipeline';
+import { GitHubTokenPool, RateLimitError } from '@/lib/github-token-pool';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
 
 /**
  * GET Handler - Analyzes a GitHub profile
@@ -38,68 +53,47 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Step 1: Fetch GitHub data - Try GraphQL first, fallback to REST if it fails
-    console.log(`Fetching data for username: ${username} (GraphQL mode)`);
-    let githubData;
-    let fetchMode = 'graphql'; // Track which mode was used for UI display
-    
-    try {
-      githubData = await GraphQLGitHubService.fetchUserData(username);
-    } catch (graphqlError: any) {
-      console.warn('GraphQL failed, falling back to REST API:', graphqlError.message);
-      console.log(`Fetching data for username: ${username} (REST fallback mode)`);
-      fetchMode = 'rest';
-      githubData = await GitHubService.fetchUserData(username);
-    }
+    // ?refresh=1 bypasses every cached stage and re-fetches from GitHub
+    const refresh = searchParams.get('refresh') === '1';
 
-    // Step 2: Calculate portfolio scores with NEW student-focused engine
-    console.log('Calculating scores with new profile-aware engine...');
-    const portfolioScore = NewScoringEngine.calculateScore(githubData);
+    // ?role= scores against a role track from the rubric
+    const role = searchParams.get('role');
+    const roles = getScoringRubric().roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
 
-    // Step 3: Generate AI-powered suggestions and insights
-    console.log('Generating AI insights...');
-    const aiInsights = await AIAnalyzer.generateInsights(githubData, portfolioScore as any);
+    // ?tz= (or an X-Timezone header) sets the IANA timezone for days and streaks;
+    // without it the profile location is used as a guess, then UTC
+    const timeZone = searchParams.get('tz') || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
 
-    // Step 4: Combine all results into unified response
-    const result = {
-      user: githubData.user,
-      score: portfolioScore.totalScore,
-      profileType: portfolioScore.profileType,
-      badges: githubData.badges || [], // NEW: Gamification
-      dimensions: portfolioScore.dimensions,
-      topRepos: portfolioScore.topRepos,
-      strengths: portfolioScore.strengths,
-      topSuggestions: portfolioScore.topSuggestions,
-      suggestions: aiInsights.suggestions,
-      recruiterPerspective: aiInsights.recruiterPerspective,
-      quickWins: aiInsights.quickWins,
-      profileSummary: aiInsights.profileSummary,
-      profileTag: aiInsights.profileTag, // NEW: Sarcastic tag
-      projectIdeas: aiInsights.projectIdeas, // NEW: Project ideas
-      activity: {
-        totalCommits: githubData.totalCommits,
-        lastCommitDate: githubData.activityData.lastCommitDate,
-        commitFrequency: githubData.activityData.commitFrequency,
-        activeDays: githubData.activityData.activeDays,
-        currentStreak: (githubData.activityData as any).currentStreak || 0,
-        longestStreak: (githubData.activityData as any).longestStreak || 0,
-        totalContributions: (githubData.activityData as any).totalContributions || 0,
-      },
-      metadata: {
-        totalRepos: githubData.repositories.length,
-        originalRepos: githubData.repositories.filter((r) => !r.is_fork).length,
-        totalStars: githubData.repositories.reduce((sum, r) => sum + r.stars, 0),
-        languages: Object.keys(githubData.languageStats),
-        topLanguages: githubData.languageStats, // For language graph
-        lastCommitDate: githubData.activityData.lastCommitDate,
-        fetchMode,
-        aiModel: aiInsights.modelUsed, // NEW: Hybrid AI tracking
-      },
-    };
+    const result = await AnalysisPipeline.run(username, { refresh, role, timeZone });
 
     return NextResponse.json(result);
   } catch (error: any) {
     console.error('Analysis error:', error);
+
+    // All tokens exhausted on both GraphQL and REST - tell the user when to come back
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          resetAt: error.resetAt,
+          tokenPool: GitHubTokenPool.getHealth(),
+        },
+        { status: 429 }
+      );
+    }
+
     return NextResponse.json(
       { error: error.message || 'Failed to analyze GitHub profile' },
       { status: 500 }
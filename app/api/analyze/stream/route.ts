@@ -0,0 +1,113 @@
+/**
+ * Streaming GitHub Portfolio Analysis API Route
+ *
+ * Same pipeline as `GET /api/analyze`, delivered as Server-Sent Events so the
+ * results page can show real progress instead of a fake loading terminal.
+ *
+ * Endpoint: GET /api/analyze/stream?username=<github_username>[&refresh=1][&role=<role>][&tz=<iana_timezone>]
+ *
+ * Events (`event:` is the phase, `data:` is the JSON AnalysisProgressEvent):
+ * - cache:       a stage was served from cache
+ * - user:        profile fetched / user ID resolved
+ * - repos:       repositories fetched or inspected (n of m)
+ * - fetch-mode:  switched from GraphQL to REST
+ * - score:       scoring done; `data.partial` is the result without AI fields
+ * - ai-provider: AI provider chosen or fell back
+ * - result:      final result in `data`
+ * - error:       pipeline failed (`data.resetAt` when rate-limited)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisPipeline } from '@/lib/analysis-pipeline';
+import { AnalysisProgressEvent } from '@/lib/analysis-progress';
+import { RateLimitError } from '@/lib/github-token-pool';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET Handler - Streams analysis progress for a GitHub profile
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const username = searchParams.get('username');
+
+  if (!username) {
+    return NextResponse.json(
+      { error: 'GitHub username is required' },
+      { status: 400 }
+    );
+  }
+
+  const refresh = searchParams.get('refresh') === '1';
+  const role = searchParams.get('role');
+  const roles = getScoringRubric().roles.map((r) => r.id);
+  if (role && !roles.includes(role)) {
+    return NextResponse.json(
+      { error: `Unknown role "${role}"`, roles },
+      { status: 400 }
+    );
+  }
+
+  // ?tz= (or an X-Timezone header) sets the IANA timezone for days and streaks;
+  // without it the profile location is used as a guess, then UTC
+  const timeZone = searchParams.get('tz') || request.headers.get('x-timezone');
+  if (timeZone && !isTimeZone(timeZone)) {
+    return NextResponse.json(
+      { error: `Unknown timezone "${timeZone}"` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  // Set once the client disconnects (or the stream is closed); the analysis
+  // keeps running so its results still land in the cache
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: AnalysisProgressEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event.phase}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const result = await AnalysisPipeline.run(username, { refresh, role, timeZone, onProgress: send });
+        send({ phase: 'result', message: 'Analysis complete', data: result });
+      } catch (error: any) {
+        console.error('Streaming analysis error:', error);
+        send({
+          phase: 'error',
+          message: error.message || 'Failed to analyze GitHub profile',
+          data: error instanceof RateLimitError ? { resetAt: error.resetAt } : undefined,
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream already errored
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
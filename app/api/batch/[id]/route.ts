@@ -0,0 +1,76 @@
+/**
+ * Cohort Batch Status & Export API Route
+ *
+ * Endpoint: GET /api/batch/<id>[?format=csv|json]
+ *
+ * - No format: job status, progress counts, rate-limit pause and every
+ *   user's status, error and summary row
+ * - format=csv:  summary table download (username, status, score, profile
+ *   type, one column per dimension, top red flags, error)
+ * - format=json: summary table rows only, as a download
+ *
+ * Exports can be taken while the job is still running; unfinished users
+ * appear with their current status.
+ *
+ * Error Handling:
+ * - 400: Unknown format
+ * - 404: Unknown or expired job id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchQueue } from '@/lib/batch-queue';
+
+/**
+ * GET Handler - Batch job status or summary export
+ *
+ * @param request - Next.js request object with an optional format parameter
+ * @param context - Route params with the job id
+ * @returns JSON status, CSV or JSON export, or error
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = BatchQueue.get(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Batch job "${id}" not found (jobs expire after they finish)` },
+      { status: 404 }
+    );
+  }
+
+  const format = request.nextUrl.searchParams.get('format');
+
+  if (format === 'csv') {
+    return new NextResponse(BatchQueue.toCsv(job), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${job.id}.csv"`,
+      },
+    });
+  }
+
+  if (format === 'json') {
+    return NextResponse.json(BatchQueue.rows(job), {
+      headers: { 'Content-Disposition': `attachment; filename="batch-${job.id}.json"` },
+    });
+  }
+
+  if (format) {
+    return NextResponse.json(
+      { error: `Unknown format "${format}"`, formats: ['csv', 'json'] },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    id: job.id,
+    status: job.status,
+    options: job.options,
+    progress: BatchQueue.progress(job),
+    pausedUntil: job.pausedUntil,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    items: job.items,
+  });
+}
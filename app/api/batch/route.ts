@@ -0,0 +1,121 @@
+/**
+ * Cohort Batch Analysis API Route
+ *
+ * Enqueues a batch job that scores a whole cohort in the background (see
+ * lib/batch-queue.ts) and returns immediately with the job id. Poll
+ * GET /api/batch/<id> for status, per-user results and CSV/JSON export.
+ *
+ * Endpoint: POST /api/batch[?role=<role>][&profile=<profile_type>][&tz=<iana_timezone>]
+ *
+ * Body (either):
+ * - text/csv: one username per row; a header row naming a username/login/github
+ *   column picks that column, otherwise the first column is used
+ * - application/json: { "usernames": ["a", "b"] } or { "csv": "<csv text>" },
+ *   optionally with "role", "profile" and "tz" instead of query parameters
+ *
+ * Profile: without `profile` each user's profile type is detected, as in
+ * GET /api/analyze; set it to score the whole cohort with the same weights.
+ *
+ * Error Handling:
+ * - 400: No usernames, more than MAX_BATCH_USERS, invalid logins, unknown profile, role or timezone
+ * - 500: Unreadable body or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchQueue, MAX_BATCH_USERS, isGitHubLogin, parseUsernameCsv } from '@/lib/batch-queue';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
+import { ProfileType } from '@/lib/new-scoring-engine';
+
+/**
+ * POST Handler - Enqueues a cohort batch job
+ *
+ * @param request - Next.js request with a CSV or JSON body of usernames
+ * @returns 202 with the job id and status URL, or error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const isJson = (request.headers.get('content-type') || '').includes('application/json');
+    const body = isJson ? await request.json() : { csv: await request.text() };
+
+    const usernames: string[] = Array.isArray(body.usernames)
+      ? body.usernames.filter((u: unknown): u is string => typeof u === 'string').map((u: string) => u.trim().replace(/^@/, '')).filter((u: string) => u.length > 0)
+      : parseUsernameCsv(typeof body.csv === 'string' ? body.csv : '');
+
+    if (usernames.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one GitHub username is required (CSV body or JSON "usernames")' },
+        { status: 400 }
+      );
+    }
+
+    if (usernames.length > MAX_BATCH_USERS) {
+      return NextResponse.json(
+        { error: `A batch may contain at most ${MAX_BATCH_USERS} usernames (got ${usernames.length})` },
+        { status: 400 }
+      );
+    }
+
+    const invalid = usernames.filter((u) => !isGitHubLogin(u));
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `${invalid.length} entries are not valid GitHub usernames`, invalid: invalid.slice(0, 20) },
+        { status: 400 }
+      );
+    }
+
+    const rubric = getScoringRubric();
+
+    // profile= scores the whole cohort with one profile type's weights
+    const profileType = body.profile || searchParams.get('profile');
+    const profiles = Object.keys(rubric.profiles);
+    if (profileType && !profiles.includes(profileType)) {
+      return NextResponse.json(
+        { error: `Unknown profile type "${profileType}"`, profiles },
+        { status: 400 }
+      );
+    }
+
+    // role= scores against a role track from the rubric
+    const role = body.role || searchParams.get('role');
+    const roles = rubric.roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
+
+    // tz= (or an X-Timezone header) sets one IANA timezone for the cohort's days and streaks
+    const timeZone = body.tz || searchParams.get('tz') || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
+
+    const job = BatchQueue.enqueue(usernames, {
+      role: role || null,
+      profileType: (profileType as ProfileType) || null,
+      timeZone: timeZone || null,
+    });
+
+    return NextResponse.json(
+      {
+        id: job.id,
+        status: job.status,
+        progress: BatchQueue.progress(job),
+        statusUrl: `/api/batch/${job.id}`,
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Batch enqueue error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to start batch analysis' },
+      { status: 500 }
+    );
+  }
+}
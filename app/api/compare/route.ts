@@ -0,0 +1,114 @@
+/**
+ * GitHub Profile Comparison API Route
+ *
+ * Analyzes shortlisted candidates side by side (see AnalysisPipeline.compare):
+ * 1. Fetch every user's GitHub data concurrently (cached per user)
+ * 2. Score everyone with the same ProfileType's weights so dimensions are comparable
+ * 3. Generate one AI comparative summary (AIAnalyzer.generateComparison)
+ *
+ * Endpoint: GET /api/compare?users=<a,b,c>[&profile=<profile_type>][&role=<role>][&tz=<iana_timezone>][&refresh=1]
+ *
+ * Profile: `profile=student|professional|open-source` picks the shared
+ * weights; defaults to professional. `role`, `tz` and `refresh` behave as in
+ * GET /api/analyze and apply to every candidate.
+ *
+ * Error Handling:
+ * - 400: Fewer than 2 or more than MAX_COMPARE_USERS users, unknown profile, role or timezone
+ * - 429: Every pooled GitHub token is rate-limited (includes `resetAt`)
+ * - 500: GitHub API errors (e.g. an unknown user), AI errors, or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisPipeline, MAX_COMPARE_USERS } from '@/lib/analysis-pipeline';
+import { GitHubTokenPool, RateLimitError } from '@/lib/github-token-pool';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
+import { ProfileType } from '@/lib/new-scoring-engine';
+
+/**
+ * GET Handler - Compares several GitHub profiles
+ *
+ * @param request - Next.js request object with a comma-separated users parameter
+ * @returns JSON response with every candidate's scores and the comparison, or error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    // ?users=a,b,c - duplicates (GitHub logins are case-insensitive) are dropped
+    const users = (searchParams.get('users') || '')
+      .split(',')
+      .map((user) => user.trim())
+      .filter((user) => user.length > 0)
+      .filter((user, i, all) => all.findIndex((u) => u.toLowerCase() === user.toLowerCase()) === i);
+
+    if (users.length < 2 || users.length > MAX_COMPARE_USERS) {
+      return NextResponse.json(
+        { error: `Between 2 and ${MAX_COMPARE_USERS} GitHub usernames are required` },
+        { status: 400 }
+      );
+    }
+
+    // ?refresh=1 bypasses every cached stage and re-fetches from GitHub
+    const refresh = searchParams.get('refresh') === '1';
+
+    const rubric = getScoringRubric();
+
+    // ?profile= picks the weights every candidate is scored with
+    const profileType = searchParams.get('profile');
+    const profiles = Object.keys(rubric.profiles);
+    if (profileType && !profiles.includes(profileType)) {
+      return NextResponse.json(
+        { error: `Unknown profile type "${profileType}"`, profiles },
+        { status: 400 }
+      );
+    }
+
+    // ?role= scores against a role track from the rubric
+    const role = searchParams.get('role');
+    const roles = rubric.roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
+
+    // ?tz= (or an X-Timezone header) sets one IANA timezone for everyone's days and streaks
+    const timeZone = searchParams.get('tz') || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
+
+    const result = await AnalysisPipeline.compare(users, {
+      refresh,
+      role,
+      timeZone,
+      profileType: profileType as ProfileType | null,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Comparison error:', error);
+
+    // All tokens exhausted on both GraphQL and REST - tell the user when to come back
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          resetAt: error.resetAt,
+          tokenPool: GitHubTokenPool.getHealth(),
+        },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to compare GitHub profiles' },
+      { status: 500 }
+    );
+  }
+}
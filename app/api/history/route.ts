@@ -0,0 +1,61 @@
+/**
+ * Score History API Route
+ *
+ * Every full analysis (GET /api/analyze and its streaming variant) stores a
+ * score snapshot; this endpoint returns them with what changed between
+ * consecutive snapshots (see lib/score-history.ts).
+ *
+ * Endpoint: GET /api/history?username=<github_username>[&role=<role>]
+ *
+ * Roles: totals depend on the role track, so only snapshots scored for the
+ * requested `role` (none = the default profile weights) are returned.
+ *
+ * Error Handling:
+ * - 400: Missing username parameter or unknown role
+ * - 500: Cache store errors or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoreHistory, diffSnapshots } from '@/lib/score-history';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+
+/**
+ * GET Handler - Score snapshots for a GitHub profile
+ *
+ * @param request - Next.js request object with username query parameter
+ * @returns JSON response with snapshots (oldest first) and changes, or error
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const username = searchParams.get('username');
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'GitHub username is required' },
+        { status: 400 }
+      );
+    }
+
+    // ?role= selects the role track's snapshots
+    const role = searchParams.get('role');
+    const roles = getScoringRubric().roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
+
+    const snapshots = (await ScoreHistory.list(username)).filter((s) => s.role === (role || null));
+    const changes = snapshots.slice(1).map((snapshot, i) => diffSnapshots(snapshots[i], snapshot));
+
+    return NextResponse.json({ username, role: role || null, snapshots, changes });
+  } catch (error: any) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load score history' },
+      { status: 500 }
+    );
+  }
+}
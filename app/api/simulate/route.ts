@@ -0,0 +1,102 @@
+/**
+ * What-If Score Simulator API Route
+ *
+ * Re-runs the scoring engine on the cached GitHub data with hypothetical
+ * changes applied (see lib/score-simulator.ts), returning the projected total
+ * and per-dimension deltas against the cached score.
+ *
+ * Endpoint: POST /api/simulate
+ *
+ * Body: { "username": "<github_username>", "changes": [...],
+ *         "role"?: "<role>", "tz"?: "<iana_timezone>" }
+ * Changes (applied in order):
+ * - { "type": "add-readme", "repo": "x" }
+ * - { "type": "set-homepage", "repo": "y", "url"?: "https://..." }
+ * - { "type": "add-ci", "repo": "z" }
+ * - { "type": "pin", "repos": ["a", "b"] } (replaces the pinned repos)
+ *
+ * An empty `changes` list returns the baseline and every repo's current
+ * state, which is how the results page's simulator panel loads.
+ *
+ * Error Handling:
+ * - 400: Missing username, invalid changes (with the allowed types), unknown role or timezone
+ * - 429: Every pooled GitHub token is rate-limited (includes `resetAt`)
+ * - 500: GitHub API errors, unreadable body or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisPipeline } from '@/lib/analysis-pipeline';
+import { GitHubTokenPool, RateLimitError } from '@/lib/github-token-pool';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
+import { SIMULATED_CHANGE_TYPES, parseChanges } from '@/lib/score-simulator';
+
+/**
+ * POST Handler - Projects the score after hypothetical changes
+ *
+ * @param request - Next.js request with a JSON body of username and changes
+ * @returns JSON response with baseline, projected total and dimension deltas, or error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'GitHub username is required' },
+        { status: 400 }
+      );
+    }
+
+    const { changes, errors } = parseChanges(body.changes ?? []);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join('; '), types: SIMULATED_CHANGE_TYPES },
+        { status: 400 }
+      );
+    }
+
+    // role scores against a role track from the rubric
+    const role = body.role || null;
+    const roles = getScoringRubric().roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
+
+    // tz (or an X-Timezone header) selects the cached analysis for that timezone
+    const timeZone = body.tz || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
+
+    const result = await AnalysisPipeline.simulate(username, changes, { role, timeZone });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Simulation error:', error);
+
+    // All tokens exhausted on both GraphQL and REST - tell the user when to come back
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          resetAt: error.resetAt,
+          tokenPool: GitHubTokenPool.getHealth(),
+        },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to simulate score' },
+      { status: 500 }
+    );
+  }
+}
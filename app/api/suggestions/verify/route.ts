@@ -0,0 +1,102 @@
+/**
+ * Suggestion Checklist Verification API Route
+ *
+ * Re-checks the suggestions a user has ticked off (see
+ * AnalysisPipeline.verifySuggestions):
+ * 1. Load the cached analysis the suggestions came from
+ * 2. Re-fetch only the repos the suggestions' checks point at
+ * 3. Re-evaluate each check and award the projected points of the ones now done
+ *
+ * Endpoint: POST /api/suggestions/verify
+ *
+ * Body: { "username": "<github_username>", "ids": ["<suggestion id>", ...],
+ *         "role"?: "<role>", "tz"?: "<iana_timezone>" }
+ * `role` and `tz` must match the analysis the checklist was built from.
+ *
+ * Statuses: done (condition no longer holds), failing (with the repos still
+ * failing), unverifiable (activity and community suggestions, which a repo
+ * re-fetch cannot settle).
+ *
+ * Error Handling:
+ * - 400: Missing username, no ids, unknown role or timezone
+ * - 429: Every pooled GitHub token is rate-limited (includes `resetAt`)
+ * - 500: GitHub API errors, unreadable body or other failures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisPipeline } from '@/lib/analysis-pipeline';
+import { GitHubTokenPool, RateLimitError } from '@/lib/github-token-pool';
+import { getScoringRubric } from '@/lib/scoring-rubric';
+import { isTimeZone } from '@/lib/contribution-activity';
+
+/**
+ * POST Handler - Verifies checklist items against fresh repo data
+ *
+ * @param request - Next.js request with a JSON body of username and suggestion ids
+ * @returns JSON response with each item's status and the awarded points, or error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'GitHub username is required' },
+        { status: 400 }
+      );
+    }
+
+    const ids: string[] = Array.isArray(body.ids)
+      ? body.ids.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    if (ids.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one suggestion id is required' },
+        { status: 400 }
+      );
+    }
+
+    // role scores against a role track from the rubric
+    const role = body.role || null;
+    const roles = getScoringRubric().roles.map((r) => r.id);
+    if (role && !roles.includes(role)) {
+      return NextResponse.json(
+        { error: `Unknown role "${role}"`, roles },
+        { status: 400 }
+      );
+    }
+
+    // tz (or an X-Timezone header) selects the cached analysis for that timezone
+    const timeZone = body.tz || request.headers.get('x-timezone');
+    if (timeZone && !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown timezone "${timeZone}"` },
+        { status: 400 }
+      );
+    }
+
+    const result = await AnalysisPipeline.verifySuggestions(username, ids, { role, timeZone });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Verification error:', error);
+
+    // All tokens exhausted on both GraphQL and REST - tell the user when to come back
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          resetAt: error.resetAt,
+          tokenPool: GitHubTokenPool.getHealth(),
+        },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to verify suggestions' },
+      { status: 500 }
+    );
+  }
+}
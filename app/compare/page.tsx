@@ -0,0 +1,354 @@
+/**
+ * Profile Comparison Page - Shortlisted Candidates Side by Side
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import ThemeToggle from '@/components/ThemeToggle';
+import DimensionRadar from '@/components/DimensionRadar';
+
+interface LanguageStat {
+  bytes: number;
+  repos: number;
+  color: string | null;
+}
+
+interface ComparedCandidate {
+  user: { login: string; name: string | null; avatar_url: string; bio: string | null };
+  score: number;
+  dimensions: Array<{ name: string; score: number; weight: number }>;
+  strengths: string[];
+  redFlags: Array<{ title: string; severity: 'high' | 'medium' | 'low' }>;
+  penalty: number;
+  activity: {
+    totalCommits: number;
+    commitFrequency: number;
+    activeDays: number;
+    currentStreak: number;
+    longestStreak: number;
+    totalContributions: number;
+    source?: 'contributions' | 'commits';
+    lastCommitDate: string | null;
+  };
+  languages?: Record<string, LanguageStat>;
+  topRepos: Array<{ name: string; description: string | null; stars: number; forks: number; language: string | null }>;
+  metadata: { totalRepos: number; originalRepos: number; totalStars: number; fetchMode?: 'graphql' | 'rest' };
+}
+
+interface ComparisonResult {
+  profileType: 'student' | 'professional' | 'open-source';
+  role: string | null;
+  candidates: ComparedCandidate[];
+  comparison: {
+    summary: string;
+    recommendation: string;
+    verdicts: Array<{ login: string; headline: string; strengths: string[]; concerns: string[] }>;
+  };
+  metadata: { aiModel?: string };
+}
+
+const PROFILE_TYPES: Array<{ id: ComparisonResult['profileType']; label: string }> = [
+  { id: 'professional', label: 'Professional' },
+  { id: 'student', label: 'Student' },
+  { id: 'open-source', label: 'OSS Contributor' },
+];
+
+// One color per candidate (radar polygon, column accent)
+const CANDIDATE_COLORS = ['#3b82f6', '#f97316', '#22c55e', '#a855f7', '#ef4444'];
+
+/**
+ * Top languages by share of bytes (repo counts when no byte sizes are known)
+ */
+const topLanguages = (stats: Record<string, LanguageStat> = {}, limit = 5) => {
+  const entries = Object.entries(stats);
+  const totalBytes = entries.reduce((sum, [, s]) => sum + s.bytes, 0);
+  const totalRepos = entries.reduce((sum, [, s]) => sum + s.repos, 0);
+  return entries
+    .map(([name, s]) => ({
+      name,
+      color: s.color || '#9ca3af',
+      percent: totalBytes > 0 ? (s.bytes / totalBytes) * 100 : (s.repos / (totalRepos || 1)) * 100,
+    }))
+    .sort((a, b) => b.percent - a.percent)
+    .slice(0, limit);
+};
+
+const parseUsers = (value: string) =>
+  value.split(/[,\s]+/).map(user => user.trim()).filter(user => user.length > 0);
+
+export default function ComparePage() {
+  const router = useRouter();
+
+  const [users, setUsers] = useState<string[]>([]);
+  const [profileType, setProfileType] = useState<ComparisonResult['profileType']>('professional');
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // ?users=a,b,c and ?profile= make comparisons shareable
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const initial = parseUsers(params.get('users') || '');
+    const profile = params.get('profile');
+    setUsers(initial);
+    setInput(initial.join(', '));
+    if (PROFILE_TYPES.some(p => p.id === profile)) setProfileType(profile as ComparisonResult['profileType']);
+  }, []);
+
+  useEffect(() => {
+    if (users.length < 2) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const refresh = params.get('refresh') === '1';
+    const role = params.get('role');
+    const tz = params.get('tz');
+    const controller = new AbortController();
+
+    setIsLoading(true);
+    setError(null);
+    fetch(
+      `/api/compare?users=${users.map(encodeURIComponent).join(',')}&profile=${profileType}${refresh ? '&refresh=1' : ''}${role ? `&role=${encodeURIComponent(role)}` : ''}${tz ? `&tz=${encodeURIComponent(tz)}` : ''}`,
+      { signal: controller.signal }
+    )
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          // Rate-limited: show the reset time in the visitor's own timezone
+          throw new Error(data.resetAt
+            ? `GitHub API rate limit exceeded. Try again at ${new Date(data.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+            : data.error || 'Comparison Failed');
+        }
+        setResult(data);
+      })
+      .catch((err: Error) => {
+        if (err.name !== 'AbortError') setError(err.message);
+      })
+      .finally(() => setIsLoading(false));
+
+    return () => controller.abort();
+  }, [users, profileType]);
+
+  const handleCompare = () => {
+    const next = parseUsers(input);
+    if (next.length < 2) return;
+    router.replace(`/compare?users=${next.map(encodeURIComponent).join(',')}&profile=${profileType}`);
+    setUsers(next);
+  };
+
+  const handleProfile = (profile: ComparisonResult['profileType']) => {
+    setProfileType(profile);
+    if (users.length >= 2) router.replace(`/compare?users=${users.map(encodeURIComponent).join(',')}&profile=${profile}`);
+  };
+
+  const color = (index: number) => CANDIDATE_COLORS[index % CANDIDATE_COLORS.length];
+
+  return (
+    <div className="min-h-screen bg-page text-text-primary p-4 md:p-8 font-sans transition-colors duration-300">
+      <div className="max-w-7xl mx-auto space-y-6">
+
+        {/* Navigation Bar */}
+        <nav className="flex items-center justify-between border-b border-border-subtle pb-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-text-tertiary hover:text-text-primary text-xs font-mono uppercase tracking-widest transition-colors"
+          >
+            ← Returns to Console
+          </button>
+          <ThemeToggle />
+        </nav>
+
+        {/* Candidate Input */}
+        <div className="card p-5 flex flex-col md:flex-row gap-3 md:items-center">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCompare()}
+            placeholder="user_one, user_two, user_three"
+            className="flex-1 bg-card text-text-primary px-4 py-3 rounded-lg border border-border-subtle focus:outline-none focus:border-blue-500 placeholder-text-tertiary font-mono text-sm"
+          />
+          <select
+            value={profileType}
+            onChange={(e) => handleProfile(e.target.value as ComparisonResult['profileType'])}
+            className="bg-card text-text-primary px-3 py-3 rounded-lg border border-border-subtle text-sm"
+            title="Every candidate is scored with this profile type's weights"
+          >
+            {PROFILE_TYPES.map(p => <option key={p.id} value={p.id}>{p.label} weights</option>)}
+          </select>
+          <button
+            onClick={handleCompare}
+            disabled={isLoading || parseUsers(input).length < 2}
+            className="px-5 py-3 bg-text-primary text-page font-semibold rounded-lg text-sm hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all tracking-tight"
+          >
+            {isLoading ? 'COMPARING...' : 'COMPARE'}
+          </button>
+        </div>
+
+        {users.length < 2 && !result && (
+          <p className="text-sm text-text-tertiary font-mono">Enter two to five GitHub usernames, separated by commas.</p>
+        )}
+
+        {error && (
+          <div className="border border-red-500/30 bg-red-500/10 p-5 rounded-lg">
+            <div className="text-red-500 font-mono text-xs uppercase tracking-widest mb-1">Comparison Failed</div>
+            <p className="text-text-secondary font-mono text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading && !result && (
+          <div className="h-1 bg-border-subtle rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 w-1/2 animate-[shimmer_2s_infinite]" />
+          </div>
+        )}
+
+        {result && (
+          <div className={`space-y-6 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+
+            {/* Radar + AI Summary */}
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+              <div className="lg:col-span-6 card p-5 space-y-2">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Dimensions</h3>
+                  <span className="text-xs text-text-secondary">
+                    {PROFILE_TYPES.find(p => p.id === result.profileType)?.label} weights{result.role && ` · ${result.role}`}
+                  </span>
+                </div>
+                <DimensionRadar
+                  series={result.candidates.map((candidate, i) => ({
+                    label: `@${candidate.user.login}`,
+                    color: color(i),
+                    dimensions: candidate.dimensions,
+                  }))}
+                />
+              </div>
+
+              <div className="lg:col-span-6 card p-5 space-y-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-text-tertiary">Comparative Summary</h3>
+                  <span className="text-[10px] text-text-tertiary font-mono">{result.metadata.aiModel || 'rule-based'}</span>
+                </div>
+                <p className="text-sm text-text-secondary leading-relaxed">{result.comparison.summary}</p>
+                <p className="text-sm text-text-primary font-medium leading-relaxed">{result.comparison.recommendation}</p>
+                <div className="space-y-3">
+                  {result.comparison.verdicts.map(verdict => {
+                    const index = result.candidates.findIndex(c => c.user.login === verdict.login);
+                    return (
+                      <div key={verdict.login} className="border-l-2 pl-3 space-y-1" style={{ borderColor: color(index) }}>
+                        <div className="text-xs font-mono text-text-primary">@{verdict.login} · {verdict.headline}</div>
+                        {verdict.strengths.length > 0 && (
+                          <div className="text-xs text-green-600 dark:text-green-400">+ {verdict.strengths.join(' · ')}</div>
+                        )}
+                        {verdict.concerns.length > 0 && (
+                          <div className="text-xs text-red-500">− {verdict.concerns.join(' · ')}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
+            {/* Side-by-Side Columns */}
+            <div className={`grid grid-cols-1 gap-4 ${result.candidates.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+              {result.candidates.map((candidate, i) => (
+                <div key={candidate.user.login} className="card p-5 space-y-5 border-t-2" style={{ borderTopColor: color(i) }}>
+
+                  {/* Header */}
+                  <div className="flex items-center gap-3">
+                    <img src={candidate.user.avatar_url} alt={candidate.user.login} className="w-12 h-12 rounded-full border border-border-subtle" />
+                    <div className="flex-1 min-w-0">
+                      <a href={`/analyze/${candidate.user.login}`} className="font-bold text-text-primary hover:underline truncate block">
+                        {candidate.user.name || candidate.user.login}
+                      </a>
+                      <div className="text-xs text-text-tertiary font-mono">@{candidate.user.login}</div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-3xl font-bold font-mono" style={{ color: color(i) }}>{candidate.score}</div>
+                      {candidate.penalty > 0 && <div className="text-[10px] text-red-500 font-mono">−{candidate.penalty} flags</div>}
+                    </div>
+                  </div>
+
+                  {/* Activity */}
+                  <div className="space-y-2">
+                    <div className="text-[10px] text-text-tertiary uppercase tracking-wider">
+                      Activity{candidate.activity.source === 'commits' && ' (approximate)'}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      {[
+                        ['Contributions', candidate.activity.totalContributions],
+                        ['Active days', candidate.activity.activeDays],
+                        ['Current streak', `${candidate.activity.currentStreak}d`],
+                        ['Longest streak', `${candidate.activity.longestStreak}d`],
+                        ['Per month', Math.round(candidate.activity.commitFrequency)],
+                        ['Original repos', candidate.metadata.originalRepos],
+                      ].map(([label, value]) => (
+                        <div key={label} className="flex justify-between bg-card-subtle border border-border-subtle rounded px-2 py-1.5">
+                          <span className="text-text-tertiary">{label}</span>
+                          <span className="font-mono text-text-primary">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Languages */}
+                  <div className="space-y-2">
+                    <div className="text-[10px] text-text-tertiary uppercase tracking-wider">Languages</div>
+                    <div className="flex h-2 rounded-full overflow-hidden bg-border-subtle">
+                      {topLanguages(candidate.languages).map(lang => (
+                        <div key={lang.name} style={{ width: `${lang.percent}%`, backgroundColor: lang.color }} title={lang.name} />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-text-secondary">
+                      {topLanguages(candidate.languages).map(lang => (
+                        <span key={lang.name} className="flex items-center gap-1">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: lang.color }} />
+                          {lang.name} <span className="font-mono text-text-tertiary">{Math.round(lang.percent)}%</span>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Top Repos */}
+                  <div className="space-y-2">
+                    <div className="text-[10px] text-text-tertiary uppercase tracking-wider">Top Repositories</div>
+                    {candidate.topRepos.length === 0 ? (
+                      <div className="text-xs text-text-tertiary">No original repositories</div>
+                    ) : (
+                      <ul className="space-y-2">
+                        {candidate.topRepos.slice(0, 4).map(repo => (
+                          <li key={repo.name} className="text-xs">
+                            <div className="flex justify-between gap-2">
+                              <a href={`/analyze/${candidate.user.login}/${repo.name}`} className="font-mono text-text-primary hover:underline truncate">
+                                {repo.name}
+                              </a>
+                              <span className="text-text-tertiary font-mono shrink-0">★{repo.stars} · {repo.language || '—'}</span>
+                            </div>
+                            {repo.description && <div className="text-text-tertiary truncate">{repo.description}</div>}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {/* Red Flags */}
+                  {candidate.redFlags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.redFlags.map(flag => (
+                        <span key={flag.title} className="text-[10px] px-2 py-0.5 rounded bg-red-500/10 text-red-500 border border-red-500/20">
+                          {flag.title}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
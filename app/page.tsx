@@ -16,7 +16,9 @@ export default function HomePage() {
   const handleAnalyze = async () => {
     if (!username.trim()) return;
     setIsLoading(true);
-    router.push(`/analyze/${username}`);
+    // "alice, bob" compares the profiles side by side
+    const users = username.split(',').map(u => u.trim()).filter(u => u.length > 0);
+    router.push(users.length > 1 ? `/compare?users=${users.map(encodeURIComponent).join(',')}` : `/analyze/${username}`);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -95,7 +97,7 @@ export default function HomePage() {
           </div>
           
           <div className="flex justify-between text-xs text-text-tertiary font-mono uppercase tracking-widest px-1">
-            <span>Latency: &lt;100ms</span>
+            <span>Tip: a, b to compare</span>
             <span>Status: Operational</span>
           </div>
         </div>
@@ -0,0 +1,130 @@
+'use client';
+
+import { Bar, BarChart, Legend, ReferenceArea, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+interface ContributionDay {
+  date: string;   // YYYY-MM-DD
+  count: number;
+}
+
+interface MonthlyActivity {
+  month: string;  // YYYY-MM
+  commits: number;
+  pullRequests: number;
+  issues: number;
+}
+
+interface ActivityGap {
+  from: string;
+  to: string;
+  weeks: number;
+}
+
+interface ActivityTimelineProps {
+  heatmap: ContributionDay[];   // Sunday-started days, oldest first
+  monthly: MonthlyActivity[];
+  gaps: ActivityGap[];
+  approximate?: boolean;        // REST fallback: own commits only
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const HEAT_LEVELS = ['bg-border-subtle', 'bg-green-900', 'bg-green-700', 'bg-green-500', 'bg-green-300'];
+
+const monthLabel = (month: string) => `${MONTH_NAMES[Number(month.slice(5, 7)) - 1]} ${month.slice(2, 4)}`;
+const formatDay = (date: string) => `${MONTH_NAMES[Number(date.slice(5, 7)) - 1]} ${Number(date.slice(8, 10))}`;
+
+/**
+ * Heat level 0-4 relative to the busiest day (GitHub-style quartiles)
+ */
+const heatLevel = (count: number, max: number) =>
+  count === 0 ? 0 : Math.min(4, Math.ceil((count / Math.max(max, 1)) * 4));
+
+export default function ActivityTimeline({ heatmap, monthly, gaps, approximate }: ActivityTimelineProps) {
+  const max = Math.max(...heatmap.map(d => d.count), 0);
+  const weeks: ContributionDay[][] = [];
+  heatmap.forEach((day, i) => {
+    if (i % 7 === 0) weeks.push([]);
+    weeks[weeks.length - 1].push(day);
+  });
+  const inGap = (date: string) => gaps.some(gap => date >= gap.from && date <= gap.to);
+
+  return (
+    <div className="space-y-5">
+      {/* 53-week heatmap */}
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col gap-1 min-w-full">
+          <div className="flex gap-[3px] text-[9px] text-text-tertiary h-3">
+            {weeks.map((week, i) => {
+              const first = week[0].date;
+              const startsMonth = i === 0 || first.slice(5, 7) !== weeks[i - 1][0].date.slice(5, 7);
+              return (
+                <div key={first} className="w-[10px] shrink-0 overflow-visible whitespace-nowrap">
+                  {startsMonth && i < weeks.length - 2 ? MONTH_NAMES[Number(first.slice(5, 7)) - 1] : ''}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-[3px]">
+            {weeks.map(week => (
+              <div key={week[0].date} className="flex flex-col gap-[3px]">
+                {week.map(day => (
+                  <div
+                    key={day.date}
+                    title={`${day.count} contribution${day.count === 1 ? '' : 's'} on ${formatDay(day.date)}`}
+                    className={`w-[10px] h-[10px] rounded-sm ${HEAT_LEVELS[heatLevel(day.count, max)]} ${
+                      day.count === 0 && inGap(day.date) ? 'ring-1 ring-inset ring-red-500/40' : ''
+                    }`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-1 text-[9px] text-text-tertiary mt-1">
+            Less
+            {HEAT_LEVELS.map(level => <div key={level} className={`w-[10px] h-[10px] rounded-sm ${level}`} />)}
+            More
+          </div>
+        </div>
+      </div>
+
+      {/* Monthly commits / PRs / issues */}
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={monthly.map(m => ({ ...m, label: monthLabel(m.month) }))} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} stroke="currentColor" className="text-text-tertiary" />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10 }} stroke="currentColor" className="text-text-tertiary" />
+            <Tooltip cursor={{ fillOpacity: 0.1 }} contentStyle={{ fontSize: 12 }} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {gaps.map(gap => (
+              <ReferenceArea
+                key={gap.from}
+                x1={monthLabel(gap.from.slice(0, 7))}
+                x2={monthLabel(gap.to.slice(0, 7))}
+                fill="#ef4444"
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            ))}
+            <Bar dataKey="commits" name="Commits" stackId="activity" fill="#22c55e" />
+            {!approximate && <Bar dataKey="pullRequests" name="PRs" stackId="activity" fill="#3b82f6" />}
+            {!approximate && <Bar dataKey="issues" name="Issues" stackId="activity" fill="#f59e0b" />}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Gap annotations */}
+      {gaps.length > 0 ? (
+        <ul className="space-y-1">
+          {gaps.map(gap => (
+            <li key={gap.from} className="text-xs text-text-secondary flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-red-500/60" />
+              {gap.weeks}-week gap: {formatDay(gap.from)} – {formatDay(gap.to)}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-text-tertiary">No multi-week gaps in the last year</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { Legend, PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from 'recharts';
+
+interface RadarSeries {
+  label: string;                                    // e.g. "@octocat"
+  color: string;
+  dimensions: { name: string; score: number }[];    // Same dimensions, same order for every series
+}
+
+interface DimensionRadarProps {
+  series: RadarSeries[];
+}
+
+/**
+ * Overlaid radar of dimension scores (0-100), one polygon per series
+ */
+export default function DimensionRadar({ series }: DimensionRadarProps) {
+  const data = (series[0]?.dimensions || []).map(dimension => ({
+    dimension: dimension.name,
+    ...Object.fromEntries(
+      series.map(s => [s.label, s.dimensions.find(d => d.name === dimension.name)?.score ?? 0])
+    ),
+  }));
+
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <RadarChart data={data} outerRadius="70%">
+          <PolarGrid stroke="currentColor" className="text-border-subtle" />
+          <PolarAngleAxis dataKey="dimension" tick={{ fontSize: 10 }} stroke="currentColor" className="text-text-tertiary" />
+          <PolarRadiusAxis domain={[0, 100]} tickCount={5} tick={{ fontSize: 9 }} stroke="currentColor" className="text-text-tertiary" />
+          <Tooltip contentStyle={{ fontSize: 12 }} />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          {series.map(s => (
+            <Radar key={s.label} name={s.label} dataKey={s.label} stroke={s.color} fill={s.color} fillOpacity={0.15} />
+          ))}
+        </RadarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
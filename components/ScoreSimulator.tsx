@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface SimulatorRepo {
+  name: string;
+  hasReadme: boolean;
+  hasHomepage: boolean;
+  hasCI: boolean;
+  pinned: boolean;
+  scored: boolean;
+}
+
+// POST /api/simulate response
+interface Simulation {
+  baseline: number;
+  projected: number;
+  delta: number;
+  dimensions: { name: string; before: number; after: number; delta: number }[];
+  skipped: { reason: string }[];
+  repos: SimulatorRepo[];
+}
+
+type RepoChange = 'add-readme' | 'set-homepage' | 'add-ci';
+
+interface ScoreSimulatorProps {
+  username: string;
+}
+
+// GitHub allows at most this many pinned repos
+const MAX_PINNED = 6;
+
+// Re-score this long after the last toggle
+const DEBOUNCE_MS = 300;
+
+const COLUMNS: { type: RepoChange; label: string; has: (repo: SimulatorRepo) => boolean }[] = [
+  { type: 'add-readme', label: 'README', has: repo => repo.hasReadme },
+  { type: 'set-homepage', label: 'Homepage', has: repo => repo.hasHomepage },
+  { type: 'add-ci', label: 'CI', has: repo => repo.hasCI },
+];
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+/**
+ * What-if panel: toggle hypothetical changes per repo and see the score the
+ * engine would give, with per-dimension deltas
+ */
+export default function ScoreSimulator({ username }: ScoreSimulatorProps) {
+  const [repos, setRepos] = useState<SimulatorRepo[]>([]);     // Current state (no changes)
+  const [toggles, setToggles] = useState<Record<RepoChange, string[]>>({ 'add-readme': [], 'set-homepage': [], 'add-ci': [] });
+  const [pinned, setPinned] = useState<string[] | null>(null); // null = pins unchanged
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changes = [
+    ...COLUMNS.flatMap(({ type }) => toggles[type].map(repo => ({ type, repo }))),
+    ...(pinned ? [{ type: 'pin', repos: pinned }] : []),
+  ];
+  const changeKey = JSON.stringify(changes);
+
+  useEffect(() => {
+    // Pass ?role= and ?tz= through so the projection starts from the score on screen
+    const params = new URLSearchParams(window.location.search);
+    // A newer toggle cancels this request, so a slow response never overwrites a newer projection
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSimulating(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/simulate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ username, changes: JSON.parse(changeKey), role: params.get('role'), tz: params.get('tz') }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setSimulation(data);
+        setRepos(current => (current.length > 0 ? current : data.repos));
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        setError(err.message || 'Simulation failed');
+      } finally {
+        if (!controller.signal.aborted) setIsSimulating(false);
+      }
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [username, changeKey]);
+
+  const toggle = (type: RepoChange, name: string) => {
+    setToggles(current => ({
+      ...current,
+      [type]: current[type].includes(name) ? current[type].filter(r => r !== name) : [...current[type], name],
+    }));
+  };
+
+  const currentPins = pinned ?? repos.filter(repo => repo.pinned).map(repo => repo.name);
+  const togglePin = (name: string) => {
+    setPinned(currentPins.includes(name) ? currentPins.filter(r => r !== name) : [...currentPins, name]);
+  };
+
+  const reset = () => {
+    setToggles({ 'add-readme': [], 'set-homepage': [], 'add-ci': [] });
+    setPinned(null);
+  };
+
+  const scored = new Set((simulation?.repos || repos).filter(repo => repo.scored).map(repo => repo.name));
+
+  if (repos.length === 0) {
+    return <div className="text-xs text-text-tertiary">{error || 'Loading repositories...'}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Projection */}
+      {simulation && (
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <div className="text-[10px] uppercase tracking-widest text-text-tertiary">Projected score</div>
+            <div className="flex items-baseline gap-2">
+              <span className="font-mono text-2xl font-bold text-text-primary">{simulation.projected}</span>
+              <span className="text-xs text-text-tertiary">from {simulation.baseline}</span>
+              <span className={`font-mono text-sm font-bold ${simulation.delta > 0 ? 'text-green-500' : simulation.delta < 0 ? 'text-red-500' : 'text-text-tertiary'}`}>
+                {signed(simulation.delta)}
+              </span>
+              {isSimulating && <span className="text-[10px] text-text-tertiary animate-pulse">re-scoring...</span>}
+            </div>
+          </div>
+          <button
+            onClick={reset}
+            disabled={changes.length === 0}
+            className="px-3 py-1 text-xs rounded border border-border-subtle text-text-secondary hover:bg-card-hover disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+
+      {simulation && simulation.dimensions.some(d => d.delta !== 0) && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {simulation.dimensions.filter(d => d.delta !== 0).map(d => (
+            <span key={d.name} className="px-2 py-0.5 rounded bg-card-subtle border border-border-subtle text-text-secondary">
+              {d.name} {d.before} → {d.after}{' '}
+              <span className={d.delta > 0 ? 'text-green-500' : 'text-red-500'}>{signed(d.delta)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+      {simulation?.skipped.map(({ reason }) => (
+        <div key={reason} className="text-xs text-amber-500">{reason}</div>
+      ))}
+
+      {/* Changes per repo */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-widest text-text-tertiary text-left">
+              <th className="py-1 font-medium">Repo</th>
+              {COLUMNS.map(({ type, label }) => <th key={type} className="py-1 font-medium text-center">{label}</th>)}
+              <th className="py-1 font-medium text-center">Pin ({currentPins.length}/{MAX_PINNED})</th>
+            </tr>
+          </thead>
+          <tbody>
+            {repos.map(repo => (
+              <tr key={repo.name} className="border-t border-border-subtle">
+                <td className="py-1.5 pr-2 font-mono text-text-primary">
+                  {repo.name}
+                  {scored.has(repo.name) && <span className="ml-2 text-[10px] text-blue-400" title="Counts toward the score">scored</span>}
+                </td>
+                {COLUMNS.map(({ type, has }) => (
+                  <td key={type} className="py-1.5 text-center">
+                    {has(repo) ? (
+                      <span className="text-green-500" title="Already done">✓</span>
+                    ) : (
+                      <input
+                        type="checkbox"
+                        checked={toggles[type].includes(repo.name)}
+                        onChange={() => toggle(type, repo.name)}
+                        className="accent-blue-500"
+                        aria-label={`${type} ${repo.name}`}
+                      />
+                    )}
+                  </td>
+                ))}
+                <td className="py-1.5 text-center">
+                  <input
+                    type="checkbox"
+                    checked={currentPins.includes(repo.name)}
+                    disabled={!currentPins.includes(repo.name) && currentPins.length >= MAX_PINNED}
+                    onChange={() => togglePin(repo.name)}
+                    className="accent-blue-500"
+                    aria-label={`Pin ${repo.name}`}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+interface ScoreSnapshot {
+  takenAt: string;
+  rubricVersion: string;
+  score: number;
+  dimensions: { name: string; score: number }[];
+}
+
+interface SnapshotDiff {
+  from: string;
+  to: string;
+  scoreDelta: number;
+  dimensions: { name: string; delta: number }[];
+  newRepos: string[];
+  removedRepos: string[];
+  newReadmes: string[];
+  newDeploys: string[];
+  resolvedSuggestions: string[];
+  rubricChanged: boolean;
+}
+
+interface ScoreTrendProps {
+  snapshots: ScoreSnapshot[];   // Oldest first
+  changes: SnapshotDiff[];      // changes[i]: snapshots[i] -> snapshots[i + 1]
+}
+
+const DIMENSION_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#a855f7', '#ef4444', '#14b8a6', '#ec4899'];
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+/**
+ * Total and per-dimension score over time, with what changed between snapshots
+ */
+export default function ScoreTrend({ snapshots, changes }: ScoreTrendProps) {
+  const dimensions = Array.from(new Set(snapshots.flatMap(s => s.dimensions.map(d => d.name))));
+  const data = snapshots.map(snapshot => ({
+    label: formatDate(snapshot.takenAt),
+    Total: snapshot.score,
+    ...Object.fromEntries(snapshot.dimensions.map(d => [d.name, d.score])),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="currentColor" className="text-border-subtle" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} stroke="currentColor" className="text-text-tertiary" />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} stroke="currentColor" className="text-text-tertiary" />
+            <Tooltip contentStyle={{ fontSize: 12 }} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            <Line type="monotone" dataKey="Total" stroke="currentColor" className="text-text-primary" strokeWidth={3} dot={{ r: 3 }} />
+            {dimensions.map((name, i) => (
+              <Line
+                key={name}
+                type="monotone"
+                dataKey={name}
+                stroke={DIMENSION_COLORS[i % DIMENSION_COLORS.length]}
+                strokeWidth={1.5}
+                strokeOpacity={0.7}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* What changed, newest first */}
+      <ul className="space-y-3">
+        {[...changes].reverse().map(change => {
+          const notes = [
+            ...change.newRepos.map(name => `New repo: ${name}`),
+            ...change.newReadmes.map(name => `README added: ${name}`),
+            ...change.newDeploys.map(name => `Deployed: ${name}`),
+            ...change.removedRepos.map(name => `Removed: ${name}`),
+            ...change.resolvedSuggestions.map(title => `Done: ${title}`),
+          ];
+          return (
+            <li key={change.to} className="text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-text-tertiary">{formatDate(change.from)} → {formatDate(change.to)}</span>
+                <span className={`font-mono font-bold ${change.scoreDelta > 0 ? 'text-green-500' : change.scoreDelta < 0 ? 'text-red-500' : 'text-text-tertiary'}`}>
+                  {signed(change.scoreDelta)}
+                </span>
+                {change.rubricChanged && <span className="text-[10px] text-amber-500">rubric updated</span>}
+              </div>
+              {change.dimensions.length > 0 && (
+                <div className="text-text-secondary">
+                  {change.dimensions.map(d => `${d.name} ${signed(d.delta)}`).join(' · ')}
+                </div>
+              )}
+              {notes.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {notes.map(note => (
+                    <span key={note} className="px-2 py-0.5 rounded bg-card-subtle border border-border-subtle text-text-secondary">{note}</span>
+                  ))}
+                </div>
+              ) : (
+                change.dimensions.length === 0 && <div className="text-text-tertiary">No changes detected</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
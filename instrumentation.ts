@@ -0,0 +1,13 @@
+/**
+ * Next.js startup hook
+ *
+ * Loads and validates the scoring rubric once when the server boots so a bad
+ * SCORING_RUBRIC_PATH fails the deploy instead of the first analysis.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getScoringRubric } = await import('./lib/scoring-rubric');
+  const rubric = getScoringRubric();
+  console.log(`Scoring rubric v${rubric.version} loaded (${rubric.dimensions.length} dimensions)`);
+}
@@ -0,0 +1,271 @@
+/**
+ * AI Response Schema - Runtime Validation for LLM Output
+ *
+ * Models do not always follow the JSON contract in the prompt. This module
+ * validates `AIInsights`, `ActionableSuggestion`, `ProjectIdea` and the
+ * multi-profile `AIComparison` at runtime:
+ *
+ * - Coerces near-misses (e.g. priority "urgent" -> "high", a single string
+ *   where `quickWins[]` was expected, comma-separated `techStack`)
+ * - Reports anything it cannot coerce as a validation error, which the
+ *   analyzer sends back to the model in a repair prompt
+ */
+
+import { AIInsights, AIComparison, ActionableSuggestion, CandidateVerdict, ProjectIdea } from './ai-analyzer';
+
+export type ValidationStatus = 'valid' | 'coerced' | 'repaired' | 'failed';
+
+/**
+ * Validation outcome recorded in the response metadata
+ */
+export interface ValidationReport {
+  status: ValidationStatus;
+  errors: string[];      // Problems that could not be coerced (first attempt)
+  coercions: string[];   // Fields that were silently fixed
+}
+
+export interface ValidationResult {
+  value: AIInsights | null;   // Null when there are errors
+  errors: string[];
+  coercions: string[];
+}
+
+export interface ComparisonValidationResult {
+  value: AIComparison | null;   // Null when there are errors
+  errors: string[];
+  coercions: string[];
+}
+
+type Level = 'high' | 'medium' | 'low';
+
+// Synonyms models commonly use for the three-level enums
+const LEVEL_SYNONYMS: Record<string, Level> = {
+  high: 'high', critical: 'high', urgent: 'high', major: 'high', hard: 'high', large: 'high',
+  medium: 'medium', moderate: 'medium', normal: 'medium', mid: 'medium',
+  low: 'low', minor: 'low', easy: 'low', small: 'low', trivial: 'low',
+};
+
+const MAX_QUICK_WINS = 5;
+const MAX_SUGGESTIONS = 10;
+const MAX_PROJECT_IDEAS = 5;
+
+/**
+ * Strip markdown code fences and parse JSON
+ */
+export const parseJSON = (response: string): { value: unknown; error: string | null } => {
+  let cleaned = response.trim();
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, '').replace(/```\s*$/, '');
+  }
+
+  try {
+    return { value: JSON.parse(cleaned), error: null };
+  } catch (error: any) {
+    return { value: null, error: `Response is not valid JSON: ${error.message}` };
+  }
+};
+
+/**
+ * Validate and coerce a parsed model response into AIInsights
+ */
+export const validateInsights = (raw: unknown): ValidationResult => {
+  const errors: string[] = [];
+  const coercions: string[] = [];
+
+  if (!isObject(raw)) {
+    return { value: null, errors: ['Root must be a JSON object'], coercions };
+  }
+
+  const profileSummary = requireString(raw, 'profileSummary', errors);
+  const recruiterPerspective = requireString(raw, 'recruiterPerspective', errors);
+
+  let profileTag: string | undefined;
+  if (raw.profileTag !== undefined && raw.profileTag !== null) {
+    if (typeof raw.profileTag === 'string') profileTag = raw.profileTag.trim();
+    else errors.push('profileTag must be a string');
+  }
+
+  const quickWins = toArray(raw.quickWins, 'quickWins', coercions)
+    .map((item, i) => {
+      if (typeof item === 'string') return item.trim();
+      if (isObject(item) && typeof item.title === 'string') {
+        coercions.push(`quickWins[${i}] object reduced to its title`);
+        return item.title.trim();
+      }
+      errors.push(`quickWins[${i}] must be a string`);
+      return '';
+    })
+    .filter(item => item.length > 0)
+    .slice(0, MAX_QUICK_WINS);
+
+  if (quickWins.length === 0 && !errors.some(e => e.startsWith('quickWins'))) {
+    errors.push('quickWins must contain at least one action');
+  }
+
+  const suggestions = toArray(raw.suggestions, 'suggestions', coercions)
+    .map((item, i) => validateSuggestion(item, `suggestions[${i}]`, errors, coercions))
+    .filter((item): item is ActionableSuggestion => item !== null)
+    .slice(0, MAX_SUGGESTIONS);
+
+  const projectIdeas = toArray(raw.projectIdeas, 'projectIdeas', coercions)
+    .map((item, i) => validateProjectIdea(item, `projectIdeas[${i}]`, errors, coercions))
+    .filter((item): item is ProjectIdea => item !== null)
+    .slice(0, MAX_PROJECT_IDEAS);
+
+  if (errors.length > 0) {
+    return { value: null, errors, coercions };
+  }
+
+  return {
+    value: { suggestions, recruiterPerspective, quickWins, profileSummary, profileTag, projectIdeas },
+    errors,
+    coercions,
+  };
+};
+
+/**
+ * Validate and coerce a parsed comparison response; every compared login
+ * needs exactly one verdict (unknown logins are dropped)
+ */
+export const validateComparison = (raw: unknown, logins: string[]): ComparisonValidationResult => {
+  const errors: string[] = [];
+  const coercions: string[] = [];
+
+  if (!isObject(raw)) {
+    return { value: null, errors: ['Root must be a JSON object'], coercions };
+  }
+
+  const summary = requireString(raw, 'summary', errors);
+  const recommendation = requireString(raw, 'recommendation', errors);
+
+  const byLogin = new Map<string, CandidateVerdict>();
+  toArray(raw.verdicts, 'verdicts', coercions).forEach((item, i) => {
+    const path = `verdicts[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    const login = typeof item.login === 'string' ? item.login.trim().replace(/^@/, '') : '';
+    const known = logins.find(l => l.toLowerCase() === login.toLowerCase());
+    if (!known) {
+      coercions.push(`${path} for unknown login ${JSON.stringify(item.login)} dropped`);
+      return;
+    }
+    byLogin.set(known, {
+      login: known,
+      headline: requireString(item, 'headline', errors, path),
+      strengths: toStrings(item.strengths, `${path}.strengths`, coercions),
+      concerns: toStrings(item.concerns, `${path}.concerns`, coercions),
+    });
+  });
+
+  logins
+    .filter(login => !byLogin.has(login))
+    .forEach(login => errors.push(`verdicts is missing an entry for "${login}"`));
+
+  if (errors.length > 0) {
+    return { value: null, errors, coercions };
+  }
+
+  return {
+    value: { summary, recommendation, verdicts: logins.map(login => byLogin.get(login) as CandidateVerdict) },
+    errors,
+    coercions,
+  };
+};
+
+const validateSuggestion = (
+  item: unknown,
+  path: string,
+  errors: string[],
+  coercions: string[]
+): ActionableSuggestion | null => {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const title = requireString(item, 'title', errors, path);
+  const description = requireString(item, 'description', errors, path);
+  if (!title || !description) return null;
+
+  return {
+    title,
+    description,
+    priority: toLevel(item.priority, `${path}.priority`, errors, coercions),
+    effort: toLevel(item.effort, `${path}.effort`, errors, coercions),
+    impact: toLevel(item.impact, `${path}.impact`, errors, coercions),
+    timeEstimate: typeof item.timeEstimate === 'string' ? item.timeEstimate : String(item.timeEstimate ?? ''),
+  };
+};
+
+const validateProjectIdea = (
+  item: unknown,
+  path: string,
+  errors: string[],
+  coercions: string[]
+): ProjectIdea | null => {
+  if (!isObject(item)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const title = requireString(item, 'title', errors, path);
+  const description = requireString(item, 'description', errors, path);
+  if (!title || !description) return null;
+
+  let techStack: string[] = [];
+  if (Array.isArray(item.techStack)) {
+    techStack = item.techStack.filter((t): t is string => typeof t === 'string');
+  } else if (typeof item.techStack === 'string') {
+    techStack = item.techStack.split(',').map(t => t.trim()).filter(t => t.length > 0);
+    coercions.push(`${path}.techStack split from string`);
+  } else {
+    errors.push(`${path}.techStack must be an array of strings`);
+  }
+
+  return { title, description, techStack };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (obj: Record<string, any>, key: string, errors: string[], path?: string): string => {
+  const value = obj[key];
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  errors.push(`${path ? `${path}.` : ''}${key} must be a non-empty string`);
+  return '';
+};
+
+/**
+ * Accept a single value where an array was expected
+ */
+const toArray = (value: unknown, path: string, coercions: string[]): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+  coercions.push(`${path} wrapped in an array`);
+  return [value];
+};
+
+/**
+ * Array of non-empty strings, accepting a single string
+ */
+const toStrings = (value: unknown, path: string, coercions: string[]): string[] =>
+  toArray(value, path, coercions)
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+const toLevel = (value: unknown, path: string, errors: string[], coercions: string[]): Level => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  const level = LEVEL_SYNONYMS[normalized];
+
+  if (!level) {
+    errors.push(`${path} must be one of high|medium|low (got ${JSON.stringify(value)})`);
+    return 'medium';
+  }
+  if (level !== normalized) {
+    coercions.push(`${path} "${value}" coerced to "${level}"`);
+  }
+  return level;
+};
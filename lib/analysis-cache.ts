@@ -0,0 +1,282 @@
+/**
+ * Analysis Cache - Persistent, TTL-Based Result Storage
+ *
+ * Reloading a report or sharing a link should not re-run the GitHub fetch,
+ * the scoring engine and a paid LLM call. This module caches each stage
+ * separately so they can expire independently:
+ *
+ * - data:     raw GitHubAnalysisData (+ which fetch mode produced it), per requested timezone
+ * - score:    PortfolioScore, keyed by the data/rubric versions, target role and forced profile type
+ * - insights: AIInsights (the expensive LLM call, kept for a day), keyed like the score it was written for
+ * - comparison: AI comparative summary of several users (insights TTL)
+ * - etag:     REST responses for conditional requests (see github-service), in their own store
+ * - history:  score snapshots per user (see score-history, kept for a year), in their own store
+ *
+ * Storage is pluggable:
+ * - ANALYSIS_CACHE_STORE=memory (default) - in-process LRU (ETag bodies and history get separate ones)
+ * - ANALYSIS_CACHE_STORE=file             - JSON files under ANALYSIS_CACHE_DIR (self-hosting)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;    // Epoch ms
+  expiresAt: number;   // Epoch ms
+}
+
+/**
+ * Minimal key-value contract every cache backend implements
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<CacheEntry<T>>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  hit: boolean;        // Served from cache without recomputing
+  storedAt: number;    // When the value was computed (also used as its version)
+}
+
+export interface CacheOptions<T = unknown> {
+  refresh?: boolean;                      // Skip the cached value and recompute (?refresh=1)
+  shouldStore?: (value: T) => boolean;    // Skip storing degraded results (e.g. fallback insights)
+}
+
+const readNonNegative = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Time-to-live per cached stage (seconds)
+ */
+export const CACHE_TTLS = {
+  data: readNonNegative(process.env.ANALYSIS_CACHE_DATA_TTL, 60 * 60),            // 1 hour
+  score: readNonNegative(process.env.ANALYSIS_CACHE_SCORE_TTL, 60 * 60),          // 1 hour
+  insights: readNonNegative(process.env.ANALYSIS_CACHE_INSIGHTS_TTL, 24 * 60 * 60), // 1 day
+  etag: readNonNegative(process.env.ANALYSIS_CACHE_ETAG_TTL, 7 * 24 * 60 * 60),   // 1 week
+  history: readNonNegative(process.env.ANALYSIS_CACHE_HISTORY_TTL, 365 * 24 * 60 * 60), // 1 year
+};
+
+/**
+ * In-memory LRU store (default)
+ * Map iteration order doubles as recency order.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<CacheEntry<T>> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlSeconds * 1000 };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Evict least recently used
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * File-backed store for self-hosted deployments (survives restarts)
+ * One JSON file per key, named by a hash of the key.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  private fileFor(key: string): string {
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const raw = await fs.readFile(this.fileFor(key), 'utf-8');
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+
+      if (entry.expiresAt <= Date.now()) {
+        await this.delete(key);
+        return null;
+      }
+      return entry;
+    } catch {
+      // Missing or unreadable file is a cache miss
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<CacheEntry<T>> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlSeconds * 1000 };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf-8');
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.fileFor(key));
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Stores are split by namespace so high-volume entries cannot evict analyses:
+ * a REST fetch writes several ETag bodies per repo, which in a shared LRU
+ * would push out every other user's cached data, scores and insights. History
+ * gets its own store too, so only other users' histories compete with it.
+ */
+export type CacheNamespace = 'analysis' | 'etag' | 'history';
+
+// Memory LRU capacity per namespace
+const MAX_ENTRIES: Record<CacheNamespace, number> = {
+  analysis: readNonNegative(process.env.ANALYSIS_CACHE_MAX_ENTRIES, 500),
+  etag: readNonNegative(process.env.ANALYSIS_CACHE_ETAG_MAX_ENTRIES, 2000),
+  history: readNonNegative(process.env.ANALYSIS_CACHE_HISTORY_MAX_ENTRIES, 5000), // One entry per user
+};
+
+const stores = new Map<CacheNamespace, CacheStore>();
+
+/**
+ * Shared store for a namespace, selected by ANALYSIS_CACHE_STORE
+ * (files are never evicted, so the file store keeps every namespace in one directory)
+ */
+export const getCacheStore = (namespace: CacheNamespace = 'analysis'): CacheStore => {
+  const existing = stores.get(namespace);
+  if (existing) return existing;
+
+  const store = process.env.ANALYSIS_CACHE_STORE === 'file'
+    ? new FileCacheStore(process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), '.cache', 'analysis'))
+    : new MemoryCacheStore(MAX_ENTRIES[namespace]);
+  stores.set(namespace, store);
+  return store;
+};
+
+export class AnalysisCache {
+  /**
+   * Raw GitHub data for a user, per requested timezone (activity days depend on it)
+   */
+  static data<T>(
+    username: string,
+    timeZone: string | null,
+    compute: () => Promise<T>,
+    options: CacheOptions<T> = {}
+  ): Promise<CacheLookup<T>> {
+    return this.getOrCompute(`data:${this.normalize(username)}:${timeZone || 'auto'}`, CACHE_TTLS.data, compute, options);
+  }
+
+  /**
+   * Portfolio score, versioned by the data and rubric it was computed from so a
+   * data refresh or rubric change never serves a score for stale inputs.
+   * Scores with a forced profile type (comparisons) are kept apart from detected ones.
+   */
+  static score<T>(
+    username: string,
+    dataVersion: number,
+    rubricVersion: string,
+    role: string | null,
+    profileType: string | null,
+    compute: () => Promise<T>,
+    options: CacheOptions<T> = {}
+  ): Promise<CacheLookup<T>> {
+    const key = `score:${this.normalize(username)}:${dataVersion}:${rubricVersion}:${role || 'auto'}:${profileType || 'auto'}`;
+    return this.getOrCompute(key, CACHE_TTLS.score, compute, options);
+  }
+
+  /**
+   * AI insights (paid LLM call), versioned like the score they were written
+   * for so re-fetched data or another role never gets insights for a different score
+   */
+  static insights<T>(
+    username: string,
+    dataVersion: number,
+    rubricVersion: string,
+    role: string | null,
+    compute: () => Promise<T>,
+    options: CacheOptions<T> = {}
+  ): Promise<CacheLookup<T>> {
+    const key = `insights:${this.normalize(username)}:${dataVersion}:${rubricVersion}:${role || 'auto'}`;
+    return this.getOrCompute(key, CACHE_TTLS.insights, compute, options);
+  }
+
+  /**
+   * AI comparative summary for a set of users (order-independent), per scoring setup
+   */
+  static comparison<T>(
+    usernames: string[],
+    scoring: string,
+    compute: () => Promise<T>,
+    options: CacheOptions<T> = {}
+  ): Promise<CacheLookup<T>> {
+    const users = usernames.map((u) => this.normalize(u)).sort().join(',');
+    return this.getOrCompute(`comparison:${users}:${scoring}`, CACHE_TTLS.insights, compute, options);
+  }
+
+  /**
+   * Return the cached value, or compute and store it
+   */
+  private static async getOrCompute<T>(
+    key: string,
+    ttlSeconds: number,
+    compute: () => Promise<T>,
+    options: CacheOptions<T>
+  ): Promise<CacheLookup<T>> {
+    const cacheStore = getCacheStore();
+
+    if (!options.refresh) {
+      const cached = await cacheStore.get<T>(key);
+      if (cached) {
+        return { value: cached.value, hit: true, storedAt: cached.storedAt };
+      }
+    }
+
+    const value = await compute();
+    if (options.shouldStore && !options.shouldStore(value)) {
+      return { value, hit: false, storedAt: Date.now() };
+    }
+
+    const entry = await cacheStore.set(key, value, ttlSeconds);
+    return { value, hit: false, storedAt: entry.storedAt };
+  }
+
+  /**
+   * GitHub logins are case-insensitive
+   */
+  private static normalize(username: string): string {
+    return username.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Analysis Pipeline - Shared Orchestration for the Analyze Routes
+ *
+ * Runs the complete analysis flow used by both `GET /api/analyze` and the
+ * streaming `GET /api/analyze/stream` variant:
+ * 1. Fetch GitHub data (GraphQL first, REST fallback) - cached
+ * 2. Calculate portfolio scores (NewScoringEngine) - cached, and recorded
+ *    as a history snapshot (ScoreHistory)
+ * 3. Generate AI insights (AIAnalyzer) - cached
+ * 4. Combine everything into the response shape the results page renders
+ *
+ * Progress is reported through an optional listener so the streaming route
+ * can show real phases (and the partial, score-only result) as they happen.
+ *
+ * `repo()` serves the repo drill-down (`GET /api/analyze/repo`) from the same
+ * cached GitHub data, `compare()` scores several users concurrently under
+ * one profile type for `GET /api/compare`, `verifySuggestions()` re-checks
+ * checklist items for `POST /api/suggestions/verify`, and `simulate()`
+ * re-scores hypothetical changes for `POST /api/simulate`.
+ */
+
+import { GraphQLGitHubService } from './graphql-github-service';
+import { GitHubService, GitHubAnalysisData, Repository } from './github-service';
+import { NewScoringEngine, PortfolioScore, ProfileType, SuggestionVerification } from './new-scoring-engine';
+import { getScoringRubric } from './scoring-rubric';
+import { RepoScorecard, CommitMonth, scoreRepository, commitTimeline } from './repo-scorecard';
+import { ReadmeAnalysis, analyzeReadme } from './readme-analyzer';
+import { AIAnalyzer, AIInsights, AIComparison } from './ai-analyzer';
+import { AnalysisCache, CacheLookup } from './analysis-cache';
+import { ProgressListener, emitProgress } from './analysis-progress';
+import { ScoreHistory } from './score-history';
+import { SimulatedChange, Simulation, simulate } from './score-simulator';
+
+export type FetchMode = 'graphql' | 'rest';
+
+/**
+ * Cached GitHub data along with the API mode that produced it
+ */
+export interface CachedGitHubData {
+  data: GitHubAnalysisData;
+  fetchMode: FetchMode;
+}
+
+export interface AnalysisOptions {
+  refresh?: boolean;                // Bypass every cached stage (?refresh=1)
+  role?: string | null;             // Score against a role track (?role=)
+  timeZone?: string | null;         // IANA timezone for days and streaks (?tz= / X-Timezone)
+  profileType?: ProfileType | null; // Force one profile type's weights instead of detecting it
+  onProgress?: ProgressListener;    // Receives real phase events
+}
+
+/**
+ * Everything the repo drill-down page renders
+ */
+export interface RepoDetail {
+  user: { login: string; avatar_url: string };
+  repo: Omit<Repository, 'readme_content' | 'commit_dates'>;
+  scorecard: RepoScorecard;
+  readme: ReadmeAnalysis | null;   // Sections and checks; null when no README text
+  commitTimeline: CommitMonth[];   // Commits per month, last 12 months
+  fetchMode: FetchMode;
+  fetchedAt: string;
+}
+
+type CacheState = 'hit' | 'miss' | 'pending';
+
+/**
+ * Combine data, score and (optionally) AI insights into the API response.
+ * Without insights the AI fields are empty and `metadata.aiPending` is set,
+ * which is what the streaming route sends as its partial result.
+ */
+const buildResult = (
+  dataEntry: CacheLookup<CachedGitHubData>,
+  scoreEntry: CacheLookup<PortfolioScore>,
+  insightsEntry: CacheLookup<AIInsights> | null
+) => {
+  const { data: githubData, fetchMode } = dataEntry.value;
+  const portfolioScore = scoreEntry.value;
+  const aiInsights = insightsEntry?.value;
+  const cacheState = (entry: CacheLookup<unknown> | null): CacheState =>
+    !entry ? 'pending' : entry.hit ? 'hit' : 'miss';
+
+  return {
+    user: githubData.user,
+    score: portfolioScore.totalScore,
+    profileType: portfolioScore.profileType,
+    role: portfolioScore.role,
+    suggestedRole: portfolioScore.suggestedRole,
+    roleScores: portfolioScore.roleScores,
+    badges: githubData.badges || [], // NEW: Gamification
+    dimensions: portfolioScore.dimensions,
+    topRepos: portfolioScore.topRepos,
+    repoScorecards: portfolioScore.repoScorecards,
+    techStack: portfolioScore.techStack,
+    strengths: portfolioScore.strengths,
+    topSuggestions: portfolioScore.topSuggestions,
+    suggestions: aiInsights?.suggestions || [],
+    recruiterPerspective: aiInsights?.recruiterPerspective || '',
+    quickWins: aiInsights?.quickWins || [],
+    profileSummary: aiInsights?.profileSummary || '',
+    profileTag: aiInsights?.profileTag, // NEW: Sarcastic tag
+    projectIdeas: aiInsights?.projectIdeas, // NEW: Project ideas
+    redFlags: [...portfolioScore.redFlags, ...(aiInsights?.securityFlags || [])],
+    penalty: portfolioScore.penalty,
+    legendStatus: portfolioScore.legendStatus,
+    activity: {
+      totalCommits: githubData.totalCommits,
+      lastCommitDate: githubData.activityData.lastCommitDate,
+      commitFrequency: githubData.activityData.commitFrequency,
+      activeDays: githubData.activityData.activeDays,
+      currentStreak: githubData.activityData.currentStreak || 0,
+      longestStreak: githubData.activityData.longestStreak || 0,
+      totalContributions: githubData.activityData.totalContributions || 0,
+      timeZone: githubData.activityData.timeZone || 'UTC',
+      timeZoneSource: githubData.activityData.timeZoneSource || 'default',
+      source: githubData.activityData.source || 'commits', // 'commits' = REST approximation
+      weeklyCadence: githubData.activityData.weeklyCadence || [],
+      contributions: githubData.activityData.contributions,
+      heatmap: githubData.activityData.heatmap || [],
+      gaps: githubData.activityData.gaps || [],
+      monthly: githubData.activityData.monthly || [],
+    },
+    metadata: {
+      totalRepos: githubData.repositories.length,
+      originalRepos: githubData.repositories.filter((r) => !r.is_fork).length,
+      totalStars: githubData.repositories.reduce((sum, r) => sum + r.stars, 0),
+      languages: Object.keys(githubData.languageStats),
+      topLanguages: githubData.languageStats, // Bytes, repo counts and colors for the language graph
+      lastCommitDate: githubData.activityData.lastCommitDate,
+      fetchMode,
+      rubricVersion: portfolioScore.rubricVersion,
+      aiModel: aiInsights?.modelUsed, // NEW: Hybrid AI tracking
+      aiValidation: aiInsights?.validation,
+      aiPending: !insightsEntry,
+      cache: {
+        data: cacheState(dataEntry),
+        score: cacheState(scoreEntry),
+        insights: cacheState(insightsEntry),
+        fetchedAt: new Date(dataEntry.storedAt).toISOString(),
+      },
+    },
+  };
+};
+
+export type AnalysisResult = ReturnType<typeof buildResult>;
+
+// Profile type comparisons are scored under unless one is requested
+export const DEFAULT_COMPARE_PROFILE: ProfileType = 'professional';
+
+// Users one comparison may include
+export const MAX_COMPARE_USERS = 5;
+
+/**
+ * One user's column on the compare page (scored with the shared profile type)
+ */
+const buildCandidate = (
+  dataEntry: CacheLookup<CachedGitHubData>,
+  scoreEntry: CacheLookup<PortfolioScore>
+) => {
+  const result = buildResult(dataEntry, scoreEntry, null);
+  return {
+    user: result.user,
+    score: result.score,
+    dimensions: result.dimensions,
+    strengths: result.strengths,
+    redFlags: result.redFlags,
+    penalty: result.penalty,
+    legendStatus: result.legendStatus,
+    techStack: result.techStack,
+    activity: result.activity,
+    languages: result.metadata.topLanguages,
+    topRepos: result.topRepos.map(({ name, description, stars, forks, language }) => ({ name, description, stars, forks, language })),
+    metadata: {
+      totalRepos: result.metadata.totalRepos,
+      originalRepos: result.metadata.originalRepos,
+      totalStars: result.metadata.totalStars,
+      fetchMode: result.metadata.fetchMode,
+      fetchedAt: result.metadata.cache.fetchedAt,
+    },
+  };
+};
+
+export type ComparedCandidate = ReturnType<typeof buildCandidate>;
+
+export interface ComparisonResult {
+  profileType: ProfileType;        // Weights every candidate was scored with
+  role: string | null;
+  rubricVersion: string;
+  candidates: ComparedCandidate[]; // In request order
+  comparison: AIComparison;
+  metadata: {
+    aiModel?: string;
+    aiValidation?: AIComparison['validation'];
+    cache: { comparison: CacheState };
+  };
+}
+
+/**
+ * Checklist verification: suggestion statuses after re-fetching their repos
+ */
+export interface VerificationResult {
+  username: string;
+  role: string | null;
+  results: SuggestionVerification[];
+  unknown: string[];               // Requested ids not among the current suggestions
+  refetchedRepos: string[];        // Repos re-fetched from GitHub
+  score: number;                   // Score the suggestions were made for
+  awardedPoints: number;           // Projected points of suggestions now done
+  projectedScore: number;          // score + awardedPoints (capped at 100)
+  rescoredScore: number;           // Full rescore with the re-fetched repos
+  fetchMode: FetchMode;
+  verifiedAt: string;
+}
+
+export class AnalysisPipeline {
+  /**
+   * Run the full analysis for a username
+   */
+  static async run(username: string, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    const { refresh, onProgress } = options;
+
+    // Step 1: Fetch GitHub data - Try GraphQL first, fallback to REST if it fails
+    const dataEntry = await this.loadData(username, options);
+    const { data: githubData } = dataEntry.value;
+
+    // Step 2: Calculate portfolio scores with NEW student-focused engine,
+    // and keep a snapshot so the results page can show progress over time
+    const scoreEntry = await this.loadScore(username, dataEntry, options);
+    await ScoreHistory.record(githubData, scoreEntry.value, dataEntry.storedAt);
+    emitProgress(onProgress, 'score', `Scoring complete: ${scoreEntry.value.totalScore}/100`, {
+      partial: buildResult(dataEntry, scoreEntry, null),
+    });
+
+    // Step 3: Generate AI-powered suggestions and insights
+    const { rubricVersion, role } = scoreEntry.value;
+    const insightsEntry = await AnalysisCache.insights(username, dataEntry.storedAt, rubricVersion, role, async () => {
+      console.log('Generating AI insights...');
+      return AIAnalyzer.generateInsights(githubData, scoreEntry.value, onProgress);
+    }, {
+      refresh,
+      // Rule-based fallback insights are not worth keeping for a day
+      shouldStore: (insights) => !!insights.modelUsed,
+    });
+    if (insightsEntry.hit) {
+      emitProgress(onProgress, 'cache', 'Using cached AI insights');
+    }
+
+    // Step 4: Combine all results into unified response
+    return buildResult(dataEntry, scoreEntry, insightsEntry);
+  }
+
+  /**
+   * Analyze several users concurrently, score them all with one profile type's
+   * weights so their dimensions are comparable, and add an AI comparative summary
+   */
+  static async compare(usernames: string[], options: AnalysisOptions = {}): Promise<ComparisonResult> {
+    const { refresh, role = null } = options;
+    const profileType = options.profileType || DEFAULT_COMPARE_PROFILE;
+
+    const entries = await Promise.all(usernames.map(async (username) => {
+      const dataEntry = await this.loadData(username, options);
+      const scoreEntry = await this.loadScore(username, dataEntry, { ...options, profileType });
+      return { dataEntry, scoreEntry };
+    }));
+
+    const comparisonEntry = await AnalysisCache.comparison(usernames, `${profileType}:${role || 'auto'}`, async () => {
+      console.log(`Generating AI comparison for ${usernames.join(', ')}...`);
+      return AIAnalyzer.generateComparison(entries.map(({ dataEntry, scoreEntry }) => ({
+        data: dataEntry.value.data,
+        score: scoreEntry.value,
+      })));
+    }, {
+      refresh,
+      // Rule-based fallback comparisons are not worth keeping for a day
+      shouldStore: (comparison) => !!comparison.modelUsed,
+    });
+
+    return {
+      profileType,
+      role,
+      rubricVersion: getScoringRubric().version,
+      candidates: entries.map(({ dataEntry, scoreEntry }) => buildCandidate(dataEntry, scoreEntry)),
+      comparison: comparisonEntry.value,
+      metadata: {
+        aiModel: comparisonEntry.value.modelUsed,
+        aiValidation: comparisonEntry.value.validation,
+        cache: { comparison: comparisonEntry.hit ? 'hit' : 'miss' },
+      },
+    };
+  }
+
+  /**
+   * Scorecard, README analysis and commit timeline for one repository,
+   * or null when the user has no such repo
+   */
+  static async repo(username: string, repoName: string, options: AnalysisOptions = {}): Promise<RepoDetail | null> {
+    const dataEntry = await this.loadData(username, options);
+    const { data: githubData, fetchMode } = dataEntry.value;
+    const repo = githubData.repositories.find((r) => r.name.toLowerCase() === repoName.toLowerCase());
+    if (!repo) return null;
+
+    const rubric = getScoringRubric();
+    const { readme_content, commit_dates, ...metadata } = repo;
+    return {
+      user: { login: githubData.user.login, avatar_url: githubData.user.avatar_url },
+      repo: metadata,
+      scorecard: scoreRepository(repo, rubric),
+      readme: readme_content ? analyzeReadme(readme_content, rubric.lists) : null,
+      commitTimeline: commitTimeline(commit_dates, 12, githubData.activityData.timeZone),
+      fetchMode,
+      fetchedAt: new Date(dataEntry.storedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Re-check suggestions a user has ticked off: re-fetch only the repos their
+   * checks point at (with the API mode the cached data came from), re-evaluate
+   * each condition and award the projected points of the ones now done.
+   * The cached data is left as is; a refreshed analysis picks the changes up.
+   */
+  static async verifySuggestions(
+    username: string,
+    ids: string[],
+    options: AnalysisOptions = {}
+  ): Promise<VerificationResult> {
+    const { role = null } = options;
+    const dataEntry = await this.loadData(username, options);
+    const scoreEntry = await this.loadScore(username, dataEntry, options);
+    const { data: githubData, fetchMode } = dataEntry.value;
+
+    // Scores cached before suggestions carried checks cannot be verified
+    const suggestions = scoreEntry.value.dimensions
+      .flatMap((d) => d.suggestions)
+      .filter((s) => ids.includes(s.id) && s.check);
+    const repoNames = Array.from(new Set(
+      suggestions.filter((s) => s.check.scope === 'repos').flatMap((s) => s.check.repos)
+    ));
+
+    const service = fetchMode === 'graphql' ? GraphQLGitHubService : GitHubService;
+    const fresh = new Map((await service.fetchRepositories(githubData.user.login, repoNames)).map((repo) => [repo.name, repo]));
+
+    // Commit history comes from the profile fetch; keep it where the re-fetch has none
+    const refreshed: GitHubAnalysisData = {
+      ...githubData,
+      repositories: githubData.repositories.map((repo) => {
+        const update = fresh.get(repo.name);
+        return update ? {
+          ...update,
+          commit_dates: update.commit_dates ?? repo.commit_dates,
+          authored_commit_count: update.authored_commit_count ?? repo.authored_commit_count,
+        } : repo;
+      }),
+    };
+
+    const results = NewScoringEngine.verifySuggestions(refreshed, suggestions);
+    const awardedPoints = results.reduce((sum, r) => sum + r.points, 0);
+    const score = scoreEntry.value.totalScore;
+
+    return {
+      username: githubData.user.login,
+      role,
+      results,
+      unknown: ids.filter((id) => !suggestions.some((s) => s.id === id)),
+      refetchedRepos: Array.from(fresh.keys()),
+      score,
+      awardedPoints,
+      projectedScore: Math.min(100, score + awardedPoints),
+      rescoredScore: NewScoringEngine.calculateScore(refreshed, role, options.profileType || null).totalScore,
+      fetchMode,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Project the score after hypothetical changes (see lib/score-simulator.ts),
+   * starting from the cached data and score
+   */
+  static async simulate(username: string, changes: SimulatedChange[], options: AnalysisOptions = {}): Promise<Simulation> {
+    const dataEntry = await this.loadData(username, options);
+    const scoreEntry = await this.loadScore(username, dataEntry, options);
+    return simulate(dataEntry.value.data, scoreEntry.value, changes);
+  }
+
+  /**
+   * Score (or load the cached score for) already-fetched GitHub data
+   */
+  static async loadScore(
+    username: string,
+    dataEntry: CacheLookup<CachedGitHubData>,
+    options: AnalysisOptions = {}
+  ): Promise<CacheLookup<PortfolioScore>> {
+    const { refresh, role = null, profileType = null } = options;
+    const rubricVersion = getScoringRubric().version;
+    return AnalysisCache.score(username, dataEntry.storedAt, rubricVersion, role, profileType, async () => {
+      console.log('Calculating scores with new profile-aware engine...');
+      return NewScoringEngine.calculateScore(dataEntry.value.data, role, profileType);
+    }, { refresh });
+  }
+
+  /**
+   * Fetch (or load cached) GitHub data, falling back from GraphQL to REST
+   */
+  static async loadData(username: string, options: AnalysisOptions = {}): Promise<CacheLookup<CachedGitHubData>> {
+    const { refresh, onProgress, timeZone = null } = options;
+
+    // Activity is computed in the requested timezone, so each one is cached separately
+    const dataEntry = await AnalysisCache.data<CachedGitHubData>(username, timeZone, async () => {
+      console.log(`Fetching data for username: ${username} (GraphQL mode)`);
+      try {
+        return { data: await GraphQLGitHubService.fetchUserData(username, onProgress, timeZone), fetchMode: 'graphql' };
+      } catch (graphqlError: any) {
+        console.warn('GraphQL failed, falling back to REST API:', graphqlError.message);
+        console.log(`Fetching data for username: ${username} (REST fallback mode)`);
+        emitProgress(onProgress, 'fetch-mode', 'GraphQL failed, switching to REST compatibility mode', { fetchMode: 'rest' });
+        return { data: await GitHubService.fetchUserData(username, onProgress, timeZone), fetchMode: 'rest' };
+      }
+    }, { refresh });
+
+    if (dataEntry.hit) {
+      emitProgress(onProgress, 'cache', `Using cached GitHub data from ${new Date(dataEntry.storedAt).toISOString()}`);
+    }
+
+    return dataEntry;
+  }
+}
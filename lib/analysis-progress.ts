@@ -0,0 +1,42 @@
+/**
+ * Analysis Progress Events
+ *
+ * Real phase events emitted while a profile is analyzed. The services report
+ * through an optional listener; the streaming route forwards each event to
+ * the browser as a Server-Sent Event.
+ */
+
+export type AnalysisPhase =
+  | 'cache'        // A stage was served from cache
+  | 'user'         // Profile fetched / user ID resolved
+  | 'repos'        // Repository pages or detail batches fetched (n of m)
+  | 'fetch-mode'   // Switched from GraphQL to the REST fallback
+  | 'score'        // Scoring done (carries the partial result)
+  | 'ai-provider'  // AI provider chosen, failed, or fell back
+  | 'result'       // Final result
+  | 'error';       // Pipeline failed
+
+export interface AnalysisProgressEvent {
+  phase: AnalysisPhase;
+  message: string;   // Human-readable line for the loading terminal
+  data?: any;        // Phase-specific payload (counts, partial/final result, resetAt)
+}
+
+export type ProgressListener = (event: AnalysisProgressEvent) => void;
+
+/**
+ * Emit safely - a failing listener must never break the analysis itself
+ */
+export const emitProgress = (
+  listener: ProgressListener | undefined,
+  phase: AnalysisPhase,
+  message: string,
+  data?: any
+): void => {
+  if (!listener) return;
+  try {
+    listener({ phase, message, data });
+  } catch (error) {
+    console.warn('Progress listener failed:', error);
+  }
+};
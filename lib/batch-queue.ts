@@ -0,0 +1,306 @@
+/**
+ * Batch Queue - Cohort Analysis Jobs
+ *
+ * Bootcamp and university teams analyze a whole cohort (up to
+ * MAX_BATCH_USERS usernames) at once. `POST /api/batch` enqueues a job and
+ * returns right away; this module works through the queue in the background:
+ *
+ * - Jobs run one at a time (FIFO), each with BATCH_CONCURRENCY workers
+ * - Only the data and score stages run (cached like /api/analyze) - no
+ *   LLM call per user
+ * - A RateLimitError pauses every worker of the job until the token pool's
+ *   `resetAt` (or BATCH_RATE_LIMIT_BACKOFF seconds when unknown), then the
+ *   user is retried
+ * - Any other failure is recorded on that user and the job moves on
+ *
+ * Jobs live in the server process (like the memory cache store) and are
+ * dropped BATCH_JOB_TTL seconds after they finish, so batches need a
+ * long-lived server (`next start`), not a serverless deployment.
+ */
+
+import crypto from 'crypto';
+import { AnalysisPipeline, FetchMode } from './analysis-pipeline';
+import { ProfileType, RedFlag } from './new-scoring-engine';
+import { RateLimitError } from './github-token-pool';
+
+export type BatchStatus = 'queued' | 'running' | 'completed';
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchOptions {
+  role: string | null;              // Score against a role track
+  profileType: ProfileType | null;  // Force one profile type's weights (null = detect per user)
+  timeZone: string | null;          // IANA timezone for days and streaks
+}
+
+/**
+ * One line of the summary table
+ */
+export interface BatchRow {
+  username: string;                  // Canonical GitHub login
+  score: number;
+  profileType: ProfileType;
+  dimensions: Record<string, number>; // Dimension name -> score
+  redFlags: string[];                // Top red flags, most severe first
+  fetchMode: FetchMode;
+}
+
+export interface BatchItem {
+  username: string;                  // As submitted
+  status: BatchItemStatus;
+  attempts: number;                  // Includes retries after rate limits
+  error?: string;
+  result?: BatchRow;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchStatus;
+  options: BatchOptions;
+  items: BatchItem[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  pausedUntil: string | null;        // Waiting out a GitHub rate limit
+}
+
+const readPositive = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Usernames one job may contain
+export const MAX_BATCH_USERS = 500;
+
+const BATCH_CONCURRENCY = readPositive(process.env.BATCH_CONCURRENCY, 3);
+const RATE_LIMIT_BACKOFF_MS = readPositive(process.env.BATCH_RATE_LIMIT_BACKOFF, 60) * 1000;
+const JOB_TTL_MS = readPositive(process.env.BATCH_JOB_TTL, 24 * 60 * 60) * 1000;
+
+// Rate-limit retries per user before it is marked failed
+const MAX_ATTEMPTS = 5;
+
+// Red flags listed per user in the summary table
+const TOP_RED_FLAGS = 3;
+
+const SEVERITY_ORDER: Record<RedFlag['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+// GitHub logins: alphanumerics and single hyphens, no leading/trailing hyphen, max 39
+const LOGIN_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+
+// Header cells that mark the username column of a CSV
+const USERNAME_HEADERS = ['username', 'login', 'github', 'github_username', 'handle'];
+
+export const isGitHubLogin = (value: string): boolean => LOGIN_PATTERN.test(value);
+
+/**
+ * Usernames from CSV text: the column headed username/login/github (first
+ * column without such a header). Profile URLs and "@login" are accepted.
+ */
+export const parseUsernameCsv = (text: string): string[] => {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+  if (rows.length === 0) return [];
+
+  const headerIndex = rows[0].findIndex(cell => USERNAME_HEADERS.includes(cell.toLowerCase()));
+  const column = Math.max(headerIndex, 0);
+
+  return (headerIndex >= 0 ? rows.slice(1) : rows)
+    .map(cells => (cells[column] || '').replace(/^https?:\/\/(www\.)?github\.com\//i, '').replace(/^@/, '').replace(/\/.*$/, ''))
+    .filter(username => username.length > 0);
+};
+
+const jobs = new Map<string, BatchJob>();
+const queue: BatchJob[] = [];
+let draining = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class BatchQueue {
+  /**
+   * Create a job for the given usernames (duplicates dropped) and start the queue
+   */
+  static enqueue(usernames: string[], options: BatchOptions): BatchJob {
+    const unique = usernames.filter(
+      (username, i) => usernames.findIndex(u => u.toLowerCase() === username.toLowerCase()) === i
+    );
+
+    const job: BatchJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      options,
+      items: unique.map(username => ({ username, status: 'queued', attempts: 0 })),
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      pausedUntil: null,
+    };
+
+    jobs.set(job.id, job);
+    queue.push(job);
+    void this.drain();
+    return job;
+  }
+
+  static get(id: string): BatchJob | null {
+    return jobs.get(id) || null;
+  }
+
+  /**
+   * Item counts per status plus the job's position in the queue
+   */
+  static progress(job: BatchJob) {
+    const count = (status: BatchItemStatus) => job.items.filter(item => item.status === status).length;
+    return {
+      total: job.items.length,
+      done: count('done'),
+      failed: count('failed'),
+      running: count('running'),
+      queued: count('queued'),
+      queuePosition: job.status === 'queued' ? queue.indexOf(job) : null,
+    };
+  }
+
+  /**
+   * Summary table rows of finished users, in submission order
+   */
+  static rows(job: BatchJob): BatchRow[] {
+    return job.items.flatMap(item => (item.result ? [item.result] : []));
+  }
+
+  /**
+   * Summary table as CSV: one row per submitted user, one column per dimension
+   */
+  static toCsv(job: BatchJob): string {
+    const dimensions = Array.from(new Set(this.rows(job).flatMap(row => Object.keys(row.dimensions))));
+    const header = ['username', 'status', 'score', 'profile_type', ...dimensions, 'red_flags', 'error'];
+    const lines = job.items.map(item => [
+      item.result?.username || item.username,
+      item.status,
+      item.result?.score ?? '',
+      item.result?.profileType || '',
+      ...dimensions.map(name => item.result?.dimensions[name] ?? ''),
+      item.result?.redFlags.join('; ') || '',
+      item.error || '',
+    ]);
+
+    return [header, ...lines].map(cells => cells.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Run queued jobs one after another
+   */
+  private static async drain(): Promise<void> {
+    if (draining) return;
+    draining = true;
+    try {
+      while (queue.length > 0) {
+        const job = queue[0];
+        await this.process(job);
+        queue.shift();
+        setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref?.();
+      }
+    } finally {
+      draining = false;
+    }
+  }
+
+  /**
+   * Work through a job's users with bounded concurrency
+   */
+  private static async process(job: BatchJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    console.log(`Batch ${job.id}: analyzing ${job.items.length} users`);
+
+    const worker = async () => {
+      for (let item = this.next(job); item; item = this.next(job)) {
+        item.status = 'running';
+        await this.waitForRateLimit(job);
+        item.attempts += 1;
+
+        try {
+          item.result = await this.analyze(item.username, job.options);
+          item.status = 'done';
+          item.error = undefined;
+        } catch (error: any) {
+          if (error instanceof RateLimitError && item.attempts < MAX_ATTEMPTS) {
+            // Pause the whole job, then retry this user
+            this.pause(job, error.resetAt);
+            item.status = 'queued';
+            console.warn(`Batch ${job.id}: rate-limited on ${item.username}, paused until ${job.pausedUntil}`);
+          } else {
+            item.status = 'failed';
+            item.error = error.message || 'Analysis failed';
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, job.items.length) }, worker));
+
+    job.status = 'completed';
+    job.finishedAt = new Date().toISOString();
+    job.pausedUntil = null;
+    console.log(`Batch ${job.id}: completed (${this.progress(job).failed} failed)`);
+  }
+
+  private static next(job: BatchJob): BatchItem | undefined {
+    return job.items.find(item => item.status === 'queued');
+  }
+
+  /**
+   * Extend the job's pause to the pool's reset time (or the default backoff)
+   */
+  private static pause(job: BatchJob, resetAt: string | null): void {
+    const reset = resetAt ? Date.parse(resetAt) : NaN;
+    const until = Number.isFinite(reset) && reset > Date.now() ? reset : Date.now() + RATE_LIMIT_BACKOFF_MS;
+    const current = job.pausedUntil ? Date.parse(job.pausedUntil) : 0;
+    job.pausedUntil = new Date(Math.max(until, current)).toISOString();
+  }
+
+  private static async waitForRateLimit(job: BatchJob): Promise<void> {
+    while (job.pausedUntil) {
+      const wait = Date.parse(job.pausedUntil) - Date.now();
+      if (wait <= 0) {
+        job.pausedUntil = null;
+        return;
+      }
+      await sleep(wait);
+    }
+  }
+
+  /**
+   * Data and score stages only, reduced to a summary table row
+   */
+  private static async analyze(username: string, options: BatchOptions): Promise<BatchRow> {
+    const dataEntry = await AnalysisPipeline.loadData(username, { timeZone: options.timeZone });
+    const scoreEntry = await AnalysisPipeline.loadScore(username, dataEntry, {
+      role: options.role,
+      profileType: options.profileType,
+    });
+    const score = scoreEntry.value;
+
+    return {
+      username: dataEntry.value.data.user.login,
+      score: score.totalScore,
+      profileType: score.profileType,
+      dimensions: Object.fromEntries(score.dimensions.map(d => [d.name, d.score])),
+      redFlags: [...score.redFlags]
+        .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+        .slice(0, TOP_RED_FLAGS)
+        .map(flag => flag.title),
+      fetchMode: dataEntry.value.fetchMode,
+    };
+  }
+}
+
+/**
+ * Quote a CSV cell when needed; cells starting with a formula character are
+ * prefixed so spreadsheets do not evaluate them
+ */
+const csvCell = (value: string | number): string => {
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
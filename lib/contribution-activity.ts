@@ -0,0 +1,352 @@
+/**
+ * Contribution Activity - Streaks, Cadence and Heatmap in the User's Timezone
+ *
+ * Default-branch commit history counts commits by anyone and misses work in
+ * other people's repos, so the GraphQL service reads the user's
+ * `contributionsCollection` (one per calendar year) instead: the daily
+ * contribution calendar plus commit / PR / issue / review totals and the
+ * restricted (private) contribution count. Streaks, active days, weekly
+ * cadence, the 53-week heatmap, quiet-gap annotations and totalContributions
+ * are all derived from those calendar days; the monthly commits / PRs /
+ * issues timeline comes from the dated contributions of each type.
+ *
+ * The REST fallback has no contribution calendar; it keeps approximating
+ * activity from the user's own commits in their recent repos and marks the
+ * result with `source: 'commits'`.
+ *
+ * Every function here is pure and takes an explicit IANA timezone: commit
+ * timestamps are bucketed into the user's local days and "today" is the
+ * user's today, never the server's. Calendar days arrive already bucketed by
+ * GitHub, so for them only "today" moves.
+ */
+
+export type ActivitySource = 'contributions' | 'commits';
+
+// Where the timezone came from: ?tz= / X-Timezone, a profile location guess, or UTC
+export type TimeZoneSource = 'request' | 'location' | 'default';
+
+export interface ContributionDay {
+  date: string;              // YYYY-MM-DD
+  count: number;
+}
+
+export interface ContributionBreakdown {
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  reviews: number;
+  restricted: number;        // Private contributions (counts only, no details)
+}
+
+export interface MonthlyActivity {
+  month: string;             // YYYY-MM
+  commits: number;
+  pullRequests: number;
+  issues: number;
+}
+
+// Dated contribution of one type (commit counts are per day, PRs/issues one each)
+export interface ContributionEvent {
+  type: 'commits' | 'pullRequests' | 'issues';
+  occurredAt: string;        // ISO timestamp
+  count: number;
+}
+
+// Stretch of the heatmap without any contribution
+export interface ActivityGap {
+  from: string;              // First quiet day (YYYY-MM-DD)
+  to: string;                // Last quiet day
+  weeks: number;             // Whole weeks covered
+}
+
+export interface CalendarActivity {
+  lastCommitDate: string | null;   // Most recent day with a contribution
+  commitFrequency: number;   // Contributions per month over the last 6 months
+  activeDays: number;        // Days with contributions in the last year
+  currentStreak: number;
+  longestStreak: number;
+  totalContributions: number;
+  weeklyCadence: number[];   // Contributions per week, oldest first
+  heatmap: ContributionDay[];   // Every day of the heatmap window, oldest first
+  gaps: ActivityGap[];       // Quiet stretches of at least GAP_WEEKS in the heatmap window
+}
+
+export interface ActivityClock {
+  timeZone: string;          // IANA name, e.g. "Asia/Kolkata"
+  now?: Date;                // Defaults to the current time
+}
+
+// Calendar years of contributions fetched per profile
+export const CONTRIBUTION_YEARS = 3;
+
+// Weeks of cadence kept for the activity chart
+export const CADENCE_WEEKS = 52;
+
+// Heatmap columns: 52 full weeks plus the current one (Sunday-started, like GitHub)
+export const HEATMAP_WEEKS = 53;
+
+// Quiet stretches at least this long are annotated on the timeline
+export const GAP_WEEKS = 4;
+
+// Months shown in the monthly commits / PRs / issues chart
+export const TIMELINE_MONTHS = 12;
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Profile location keywords → timezone (first match wins; countries spanning
+ * several zones map to their most populous one). Two-letter US state codes
+ * only count next to an explicit US mention: "Calgary, CA" is Canada.
+ */
+const LOCATION_TIME_ZONES: { pattern: RegExp; timeZone: string }[] = [
+  { pattern: /\b(india|bengaluru|bangalore|mumbai|delhi|hyderabad|chennai|pune|kolkata)\b/i, timeZone: 'Asia/Kolkata' },
+  { pattern: /\b(pakistan|karachi|lahore|islamabad)\b/i, timeZone: 'Asia/Karachi' },
+  { pattern: /\b(bangladesh|dhaka)\b/i, timeZone: 'Asia/Dhaka' },
+  { pattern: /\b(nepal|kathmandu)\b/i, timeZone: 'Asia/Kathmandu' },
+  { pattern: /\b(sri lanka|colombo)\b/i, timeZone: 'Asia/Colombo' },
+  { pattern: /\b(china|beijing|shanghai|shenzhen|hangzhou)\b/i, timeZone: 'Asia/Shanghai' },
+  { pattern: /\b(hong kong)\b/i, timeZone: 'Asia/Hong_Kong' },
+  { pattern: /\b(taiwan|taipei)\b/i, timeZone: 'Asia/Taipei' },
+  { pattern: /\b(japan|tokyo|osaka)\b/i, timeZone: 'Asia/Tokyo' },
+  { pattern: /\b(korea|seoul)\b/i, timeZone: 'Asia/Seoul' },
+  { pattern: /\b(singapore)\b/i, timeZone: 'Asia/Singapore' },
+  { pattern: /\b(indonesia|jakarta)\b/i, timeZone: 'Asia/Jakarta' },
+  { pattern: /\b(vietnam|hanoi|ho chi minh)\b/i, timeZone: 'Asia/Ho_Chi_Minh' },
+  { pattern: /\b(philippines|manila)\b/i, timeZone: 'Asia/Manila' },
+  { pattern: /\b(dubai|uae|united arab emirates|abu dhabi)\b/i, timeZone: 'Asia/Dubai' },
+  { pattern: /\b(israel|tel aviv|jerusalem)\b/i, timeZone: 'Asia/Jerusalem' },
+  { pattern: /\b(turkey|türkiye|istanbul|ankara)\b/i, timeZone: 'Europe/Istanbul' },
+  { pattern: /\b(sydney|melbourne|australia)\b/i, timeZone: 'Australia/Sydney' },
+  { pattern: /\b(new zealand|auckland)\b/i, timeZone: 'Pacific/Auckland' },
+  { pattern: /\b(uk|united kingdom|england|london|scotland|edinburgh|manchester)\b/i, timeZone: 'Europe/London' },
+  { pattern: /\b(ireland|dublin)\b/i, timeZone: 'Europe/Dublin' },
+  { pattern: /\b(portugal|lisbon)\b/i, timeZone: 'Europe/Lisbon' },
+  { pattern: /\b(germany|berlin|munich|hamburg)\b/i, timeZone: 'Europe/Berlin' },
+  { pattern: /\b(france|paris|lyon)\b/i, timeZone: 'Europe/Paris' },
+  { pattern: /\b(spain|madrid|barcelona)\b/i, timeZone: 'Europe/Madrid' },
+  { pattern: /\b(italy|rome|milan)\b/i, timeZone: 'Europe/Rome' },
+  { pattern: /\b(netherlands|amsterdam)\b/i, timeZone: 'Europe/Amsterdam' },
+  { pattern: /\b(switzerland|zurich|geneva)\b/i, timeZone: 'Europe/Zurich' },
+  { pattern: /\b(sweden|stockholm)\b/i, timeZone: 'Europe/Stockholm' },
+  { pattern: /\b(poland|warsaw|krakow)\b/i, timeZone: 'Europe/Warsaw' },
+  { pattern: /\b(ukraine|kyiv|kiev)\b/i, timeZone: 'Europe/Kyiv' },
+  { pattern: /\b(russia|moscow)\b/i, timeZone: 'Europe/Moscow' },
+  { pattern: /\b(nigeria|lagos|abuja)\b/i, timeZone: 'Africa/Lagos' },
+  { pattern: /\b(kenya|nairobi)\b/i, timeZone: 'Africa/Nairobi' },
+  { pattern: /\b(egypt|cairo)\b/i, timeZone: 'Africa/Cairo' },
+  { pattern: /\b(south africa|cape town|johannesburg)\b/i, timeZone: 'Africa/Johannesburg' },
+  { pattern: /\b(brazil|são paulo|sao paulo|rio de janeiro)\b/i, timeZone: 'America/Sao_Paulo' },
+  { pattern: /\b(argentina|buenos aires)\b/i, timeZone: 'America/Argentina/Buenos_Aires' },
+  { pattern: /\b(mexico|cdmx)\b/i, timeZone: 'America/Mexico_City' },
+  { pattern: /\b(toronto|montreal|ottawa)\b/i, timeZone: 'America/Toronto' },
+  { pattern: /\b(vancouver)\b/i, timeZone: 'America/Vancouver' },
+  { pattern: /\b(san francisco|bay area|seattle|los angeles|portland|california)\b|\b(ca|wa|or)\b.*\b(usa|us|united states)\b/i, timeZone: 'America/Los_Angeles' },
+  { pattern: /\b(denver|colorado)\b|\bco\b.*\b(usa|us|united states)\b/i, timeZone: 'America/Denver' },
+  { pattern: /\b(chicago|austin|dallas|houston|texas)\b|\b(tx|il)\b.*\b(usa|us|united states)\b/i, timeZone: 'America/Chicago' },
+  { pattern: /\b(new york|nyc|boston|washington|atlanta|miami)\b|\b(ny|dc|ma|ga|fl)\b.*\b(usa|us|united states)\b/i, timeZone: 'America/New_York' },
+];
+
+/**
+ * Whether a string is an IANA timezone this runtime knows
+ */
+export const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Best-effort timezone from a free-text profile location ("Pune, India")
+ */
+export const guessTimeZone = (location: string | null | undefined): string | null =>
+  (location && LOCATION_TIME_ZONES.find(z => z.pattern.test(location))?.timeZone) || null;
+
+/**
+ * Pick the timezone for a profile: an explicit request wins, then the location guess, then UTC
+ */
+export const resolveTimeZone = (
+  requested: string | null | undefined,
+  location: string | null | undefined
+): { timeZone: string; source: TimeZoneSource } => {
+  if (requested && isTimeZone(requested)) return { timeZone: requested, source: 'request' };
+  const guessed = guessTimeZone(location);
+  if (guessed) return { timeZone: guessed, source: 'location' };
+  return { timeZone: DEFAULT_TIME_ZONE, source: 'default' };
+};
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an instant in a timezone
+ */
+export const localDay = (instant: Date | string, timeZone: string): string =>
+  // en-CA formats dates as YYYY-MM-DD
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(typeof instant === 'string' ? new Date(instant) : instant);
+
+// Day arithmetic on YYYY-MM-DD keys (timezone-free once bucketed)
+const shiftDay = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Bucket commit timestamps into local days
+ */
+export const commitDays = (timestamps: string[], timeZone: string): ContributionDay[] => {
+  const counts = new Map<string, number>();
+  timestamps.forEach(timestamp => {
+    const day = localDay(timestamp, timeZone);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([date, count]) => ({ date, count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Current and longest runs of consecutive days with contributions. The current
+ * streak survives a quiet today (it may not be over yet) but not a quiet yesterday.
+ */
+export const contributionStreaks = (days: ContributionDay[], clock: ActivityClock) => {
+  const active = new Set(days.filter(d => d.count > 0).map(d => d.date));
+  const sorted = Array.from(active).sort();
+
+  let longestStreak = 0;
+  let run = 0;
+  sorted.forEach((date, i) => {
+    run = i > 0 && shiftDay(sorted[i - 1], 1) === date ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  let currentStreak = 0;
+  let cursor = localDay(clock.now || new Date(), clock.timeZone);
+  if (!active.has(cursor)) cursor = shiftDay(cursor, -1);
+  while (active.has(cursor)) {
+    currentStreak++;
+    cursor = shiftDay(cursor, -1);
+  }
+
+  return { currentStreak, longestStreak };
+};
+
+/**
+ * Every day of the heatmap window (HEATMAP_WEEKS columns ending with the
+ * current week), with zero for days without contributions
+ */
+export const heatmapDays = (days: ContributionDay[], clock: ActivityClock): ContributionDay[] => {
+  const counts = new Map(days.map(d => [d.date, d.count]));
+  const today = localDay(clock.now || new Date(), clock.timeZone);
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const start = shiftDay(today, -(weekday + (HEATMAP_WEEKS - 1) * 7));
+
+  const heatmap: ContributionDay[] = [];
+  for (let day = start; day <= today; day = shiftDay(day, 1)) {
+    heatmap.push({ date: day, count: counts.get(day) || 0 });
+  }
+  return heatmap;
+};
+
+/**
+ * Quiet stretches of at least `minWeeks` in a run of consecutive days
+ * (an ongoing stretch ends today)
+ */
+export const activityGaps = (heatmap: ContributionDay[], minWeeks = GAP_WEEKS): ActivityGap[] => {
+  const gaps: ActivityGap[] = [];
+  let from: string | null = null;
+  let length = 0;
+
+  const close = (to: string) => {
+    if (from && length >= minWeeks * 7) gaps.push({ from, to, weeks: Math.floor(length / 7) });
+    from = null;
+    length = 0;
+  };
+
+  heatmap.forEach((day, i) => {
+    if (day.count > 0) {
+      if (from) close(heatmap[i - 1].date);
+      return;
+    }
+    from = from || day.date;
+    length++;
+  });
+  if (from) close(heatmap[heatmap.length - 1].date);
+
+  return gaps;
+};
+
+/**
+ * Commits, PRs and issues per month over the last `months` months, oldest first
+ */
+export const monthlyActivity = (
+  events: ContributionEvent[],
+  clock: ActivityClock,
+  months = TIMELINE_MONTHS
+): MonthlyActivity[] => {
+  const [year, month] = localDay(clock.now || new Date(), clock.timeZone).split('-').map(Number);
+  const timeline: MonthlyActivity[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const start = new Date(Date.UTC(year, month - 1 - i, 1));
+    timeline.push({ month: start.toISOString().slice(0, 7), commits: 0, pullRequests: 0, issues: 0 });
+  }
+
+  events.forEach(event => {
+    const entry = timeline.find(t => t.month === localDay(event.occurredAt, clock.timeZone).slice(0, 7));
+    if (entry) entry[event.type] += event.count;
+  });
+
+  return timeline;
+};
+
+/**
+ * Derive activity metrics from calendar days (any order, duplicates merged)
+ */
+export const activityFromCalendar = (days: ContributionDay[], clock: ActivityClock): CalendarActivity => {
+  const byDate = new Map<string, number>();
+  days.forEach(d => byDate.set(d.date, Math.max(byDate.get(d.date) || 0, d.count)));
+  const merged = Array.from(byDate.entries())
+    .map(([date, count]) => ({ date, count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const today = localDay(clock.now || new Date(), clock.timeZone);
+  const since = (daysAgo: number) => shiftDay(today, -daysAgo);
+  const lastYear = merged.filter(d => d.date > since(365));
+  const lastSixMonths = merged.filter(d => d.date > since(182));
+
+  const weeklyCadence = Array.from({ length: CADENCE_WEEKS }, (_, i) => {
+    const start = since((CADENCE_WEEKS - i) * 7);
+    const end = since((CADENCE_WEEKS - i - 1) * 7);
+    return merged.filter(d => d.date > start && d.date <= end).reduce((sum, d) => sum + d.count, 0);
+  });
+
+  const lastActive = [...merged].reverse().find(d => d.count > 0);
+  const heatmap = heatmapDays(merged, clock);
+
+  return {
+    lastCommitDate: lastActive ? `${lastActive.date}T00:00:00Z` : null,
+    commitFrequency: lastSixMonths.reduce((sum, d) => sum + d.count, 0) / 6,
+    activeDays: lastYear.filter(d => d.count > 0).length,
+    ...contributionStreaks(merged, clock),
+    totalContributions: merged.reduce((sum, d) => sum + d.count, 0),
+    weeklyCadence,
+    heatmap,
+    gaps: activityGaps(heatmap),
+  };
+};
+
+/**
+ * Active days, streaks, heatmap and monthly commits from raw commit
+ * timestamps (commit-history fallbacks)
+ */
+export const activityFromCommits = (timestamps: string[], clock: ActivityClock) => {
+  const days = commitDays(timestamps, clock.timeZone);
+  const heatmap = heatmapDays(days, clock);
+  return {
+    activeDays: days.length,
+    ...contributionStreaks(days, clock),
+    heatmap,
+    gaps: activityGaps(heatmap),
+    monthly: monthlyActivity(timestamps.map(occurredAt => ({ type: 'commits' as const, occurredAt, count: 1 })), clock),
+  };
+};
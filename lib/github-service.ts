@@ -16,11 +16,103 @@
  */
 
 import { Octokit } from '@octokit/rest';
+import { GitHubTokenPool, RateLimitError, RateLimitResource } from './github-token-pool';
+import { CACHE_TTLS, getCacheStore } from './analysis-cache';
+import { ProgressListener, emitProgress } from './analysis-progress';
+import { RepoSignals, detectRepoSignals } from './repo-signals';
+import { ReadmeFormat, readmeFormat, toMarkdown } from './readme-format';
+import { CodeQuality, TreeEntry, TREE_DEPTH, detectCodeQuality } from './tooling-detectors';
+import { MANIFEST_FILES, ManifestFile, TechStack, detectTechStack } from './tech-stack';
+import {
+  ActivityGap, ActivitySource, ContributionBreakdown, ContributionDay, MonthlyActivity, TimeZoneSource,
+  activityFromCommits, resolveTimeZone,
+} from './contribution-activity';
+import { LANGUAGES_PER_REPO, LanguageStat, RepoLanguage, aggregateLanguageStats } from './language-stats';
+
+// Initialize Octokit client without a fixed token; every request draws an
+// authenticated token from the shared pool (see hook below)
+const octokit = new Octokit();
+
+// Response the request hook resolves with (status, url, headers, data)
+type OctokitResponse = Awaited<ReturnType<typeof octokit.request>>;
+
+// Repository fields shared by the user listing and single-repo responses
+type RestRepository = Pick<
+  Awaited<ReturnType<typeof octokit.repos.listForUser>>['data'][number],
+  'name' | 'description' | 'stargazers_count' | 'forks_count' | 'language' | 'topics' | 'updated_at'
+  | 'created_at' | 'size' | 'fork' | 'open_issues_count' | 'homepage' | 'default_branch'
+>;
 
-// Initialize Octokit client with GitHub Personal Access Token
-// This provides authenticated access to GitHub API with higher rate limits
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
+/**
+ * Cached REST response for conditional requests
+ */
+interface ETagCacheEntry {
+  etag: string;
+  url: string;
+  data: unknown;
+}
+
+/**
+ * Swallow only "not found" and "empty repository" (409) replies: a rate limit
+ * or any other failure must fail the fetch instead of being scored (and
+ * cached) as a repo without commits, tooling or languages
+ */
+const rethrowUnlessMissing = (error: any) => {
+  if (error instanceof RateLimitError || (error?.status !== 404 && error?.status !== 409)) throw error;
+};
+
+/**
+ * Route every REST (and Octokit GraphQL) request through the token pool:
+ * inject the least-used token, record rate-limit headers, and retry on the
+ * next token after a primary or secondary rate limit.
+ *
+ * GET requests are sent with `If-None-Match` when we hold an ETag for the URL;
+ * a 304 reply (which does not count against the rate limit) is answered from
+ * the cached body.
+ */
+octokit.hook.wrap('request', async (request, options) => {
+  const resource: RateLimitResource = options.url === '/graphql' ? 'graphql' : 'core';
+  const isGet = (options.method || 'GET').toUpperCase() === 'GET';
+  const etagKey = `etag:${octokit.request.endpoint.parse(options).url}`;
+  const cache = getCacheStore('etag');
+  const cached = isGet ? await cache.get<ETagCacheEntry>(etagKey) : null;
+
+  return GitHubTokenPool.withToken(resource, async (token) => {
+    const headers = { ...options.headers };
+    if (token) headers.authorization = `token ${token}`;
+    else delete headers.authorization;
+    if (cached) headers['if-none-match'] = cached.value.etag;
+
+    try {
+      const response = await request({ ...options, headers });
+      GitHubTokenPool.reportHeaders(token, resource, response.headers);
+
+      if (isGet && response.headers.etag) {
+        await cache.set<ETagCacheEntry>(
+          etagKey,
+          { etag: response.headers.etag, url: response.url, data: response.data },
+          CACHE_TTLS.etag
+        );
+      }
+      return response;
+    } catch (error: any) {
+      const responseHeaders = error.response?.headers;
+      GitHubTokenPool.reportHeaders(token, resource, responseHeaders);
+
+      // Not modified: serve the body we already have
+      if (error.status === 304 && cached) {
+        const replayed: OctokitResponse = { status: 200, url: cached.value.url, headers: responseHeaders || {}, data: cached.value.data };
+        return replayed;
+      }
+
+      const resetAt = GitHubTokenPool.detectRateLimit(error.status, responseHeaders, error.message);
+      if (resetAt !== null) {
+        GitHubTokenPool.markExhausted(token, resource, resetAt);
+        throw new RateLimitError('GitHub API rate limit exceeded', new Date(resetAt).toISOString());
+      }
+      throw error;
+    }
+  });
 });
 
 /**
@@ -57,23 +149,24 @@ export interface Repository {
   stars: number;               // Star count (community validation)
   forks: number;               // Fork count (impact indicator)
   language: string | null;      // Primary programming language
+  languages?: RepoLanguage[];  // Per-language byte sizes, largest first
   topics: string[];            // GitHub topics/tags
   updated_at: string;          // Last update timestamp
   created_at: string;          // Creation timestamp
   size: number;                // Repository size in KB
   has_readme: boolean;         // README presence (critical for documentation score)
-  readme_content?: string;     // Decoded README text (for quality analysis)
+  readme_content?: string;     // Decoded README text as Markdown (for quality analysis)
   readme_length?: number;      // README character count (quality indicator)
+  readme_file?: string;        // Path GitHub renders the README from, e.g. "docs/README.rst"
+  readme_format?: ReadmeFormat; // Original markup (rst/asciidoc/org are converted to Markdown)
   is_fork: boolean;            // Whether this is a forked repository
   open_issues: number;         // Number of open issues
   authored_commit_count?: number; // Number of commits by the user (crucial for forks)
   homepage?: string | null;    // Homepage URL (for live demo detection)
-  code_quality?: {             // ENHANCEMENT: Code quality indicators
-    hasCI: boolean;            // Has CI/CD workflows
-    hasTests: boolean;         // Has test directory
-    hasTypeScript: boolean;    // Uses TypeScript
-    hasLinting: boolean;       // Has linting config
-  };
+  code_quality?: CodeQuality;  // ENHANCEMENT: Code quality indicators (with the files behind them)
+  tech_stack?: TechStack;      // Frameworks, test runners, ORMs and cloud SDKs from dependency manifests
+  signals?: RepoSignals;       // Role-track signals (Docker, Terraform, notebooks, ...)
+  commit_dates?: string[];     // Recent commit timestamps (up to 100) for the repo timeline
 }
 
 export interface GitHubAnalysisData {
@@ -81,14 +174,22 @@ export interface GitHubAnalysisData {
   repositories: Repository[];
   pinnedRepos: string[];
   totalCommits: number;
-  languageStats: Record<string, number>;
+  languageStats: Record<string, LanguageStat>;   // Byte-weighted, largest first
   activityData: {
+    source?: ActivitySource; // Contribution calendar (GraphQL) or own commits in recent repos (REST approximation)
+    timeZone?: string;       // IANA timezone days and streaks were computed in
+    timeZoneSource?: TimeZoneSource; // ?tz= / X-Timezone, profile location guess, or UTC default
     lastCommitDate: string | null;
-    commitFrequency: number; // commits per month average over last 6 months
+    commitFrequency: number; // commits (contributions when calendar-based) per month over last 6 months
     activeDays: number;
     currentStreak: number;
     longestStreak: number;
-    totalContributions: number; // Total commits + issues + PRs
+    totalContributions: number; // Total commits + issues + PRs + reviews
+    weeklyCadence?: number[]; // Contributions per week over the last year (calendar only)
+    contributions?: ContributionBreakdown; // Per-type totals (calendar only)
+    heatmap?: ContributionDay[]; // Daily contributions for the 53-week heatmap
+    gaps?: ActivityGap[];    // Quiet stretches of GAP_WEEKS or more within the heatmap
+    monthly?: MonthlyActivity[]; // Commits / PRs / issues per month (REST: commits only)
   };
   badges?: string[]; // Gamification badges (pull-shark, yolo, etc.)
 }
@@ -97,10 +198,15 @@ export class GitHubService {
   /**
    * Fetch complete GitHub profile data for analysis
    */
-  static async fetchUserData(username: string): Promise<GitHubAnalysisData> {
+  static async fetchUserData(
+    username: string,
+    onProgress?: ProgressListener,
+    requestedTimeZone?: string | null
+  ): Promise<GitHubAnalysisData> {
     try {
       // Fetch user profile
       const { data: user } = await octokit.users.getByUsername({ username });
+      emitProgress(onProgress, 'user', `Fetched profile for @${user.login}`, { login: user.login });
 
       // Fetch all public repos
       const { data: repos } = await octokit.repos.listForUser({
@@ -108,58 +214,25 @@ export class GitHubService {
         per_page: 100,
         sort: 'updated',
       });
+      emitProgress(onProgress, 'repos', `Fetched ${repos.length} of ${user.public_repos} repositories`, {
+        fetched: repos.length,
+        total: user.public_repos,
+      });
 
       // Process repositories with README checks
       const repositories: Repository[] = await Promise.all(
-        repos.map(async (repo) => {
-          let has_readme = false;
-          let readme_content: string | undefined;
-          let readme_length = 0;
-
-          try {
-            const { data: readme } = await octokit.repos.getReadme({
-              owner: username,
-              repo: repo.name,
-            });
-            has_readme = true;
-            readme_content = Buffer.from(readme.content, 'base64').toString('utf-8');
-            readme_length = readme_content.length;
-          } catch {
-            // README doesn't exist
-          }
-
-          // ENHANCEMENT: Detect code quality indicators
-          const code_quality = await this.detectCodeQuality(username, repo.name);
-
-          return {
-            name: repo.name,
-            description: repo.description,
-            stars: repo.stargazers_count || 0,
-            forks: repo.forks_count || 0,
-            language: repo.language || null,  // Convert undefined to null
-            topics: repo.topics || [],
-            updated_at: repo.updated_at || '',
-            created_at: repo.created_at || '',
-            size: repo.size || 0,
-            has_readme,
-            readme_content,
-            readme_length,
-            is_fork: repo.fork || false,
-            open_issues: repo.open_issues_count || 0,
-            homepage: repo.homepage || null,  // NEW: For live demo detection
-            code_quality,
-          };
-        })
+        repos.map((repo) => this.buildRepository(username, repo))
       );
 
       // Fetch pinned repositories (requires GraphQL)
       const pinnedRepos = await this.fetchPinnedRepos(username);
 
       // Calculate commit statistics
-      const activityData = await this.calculateActivityData(username, repositories);
+      const { timeZone, source: timeZoneSource } = resolveTimeZone(requestedTimeZone, user.location);
+      const activityData = await this.calculateActivityData(username, repositories, timeZone);
 
-      // Calculate language statistics
-      const languageStats = this.calculateLanguageStats(repositories);
+      // Byte-weighted language breakdown of original repos
+      const languageStats = aggregateLanguageStats(repositories);
 
       return {
         user: {
@@ -183,18 +256,28 @@ export class GitHubService {
         totalCommits: activityData.totalCommits,
         languageStats,
         activityData: {
+          source: 'commits', // Approximation: no contribution calendar over REST
+          timeZone,
+          timeZoneSource,
           lastCommitDate: activityData.lastCommitDate,
           commitFrequency: activityData.commitFrequency,
           activeDays: activityData.activeDays,
           currentStreak: activityData.currentStreak || 0,
           longestStreak: activityData.longestStreak || 0,
           totalContributions: activityData.totalContributions || 0,
+          heatmap: activityData.heatmap,
+          gaps: activityData.gaps,
+          monthly: activityData.monthly,
         },
       };
     } catch (error: any) {
       if (error.status === 404) {
         throw new Error('GitHub user not found');
       }
+      // Token pool already retried on every token; surface the reset time
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       if (error.status === 403) {
         throw new Error('GitHub API rate limit exceeded. Please try again later.');
       }
@@ -202,6 +285,87 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Re-fetch specific repositories without re-running the whole profile fetch.
+   * Repos that cannot be read (renamed, deleted) are left out.
+   */
+  static async fetchRepositories(username: string, names: string[]): Promise<Repository[]> {
+    const repos = await Promise.all(names.map(async (name) => {
+      try {
+        const { data: repo } = await octokit.repos.get({ owner: username, repo: name });
+        return await this.buildRepository(username, repo);
+      } catch (error: any) {
+        if (error instanceof RateLimitError) throw error;
+        console.warn(`Could not re-fetch ${username}/${name}:`, error.message);
+        return null;
+      }
+    }));
+
+    return repos.filter((repo): repo is Repository => repo !== null);
+  }
+
+  /**
+   * Repository with README, tooling, tech stack, signals and languages
+   */
+  private static async buildRepository(owner: string, repo: RestRepository): Promise<Repository> {
+    let has_readme = false;
+    let readme_content: string | undefined;
+    let readme_length = 0;
+    let readme_file: string | undefined;
+    let readme_format: ReadmeFormat | undefined;
+
+    try {
+      // Resolves .github/, root and docs/ READMEs of any name the way GitHub does
+      const { data: readme } = await octokit.repos.getReadme({
+        owner,
+        repo: repo.name,
+      });
+      has_readme = true;
+      readme_file = readme.path;
+      readme_format = readmeFormat(readme.path);
+      readme_content = toMarkdown(Buffer.from(readme.content, 'base64').toString('utf-8'), readme_format);
+      readme_length = readme_content.length;
+    } catch (error: any) {
+      // Only a 404 means there is no README; rate limits and other failures must
+      // not be scored as "Missing README"
+      if (error instanceof RateLimitError || error.status !== 404) throw error;
+    }
+
+    // ENHANCEMENT: Detect code quality indicators, tech stack and role signals from one tree fetch
+    const tree = await this.fetchTree(owner, repo.name, repo.default_branch);
+    const code_quality = tree ? detectCodeQuality(tree) : undefined;
+    const manifests = tree ? await this.fetchManifests(owner, repo.name, tree) : {};
+    const tech_stack = tree ? detectTechStack(manifests) : undefined;
+    const signals = tree
+      ? this.detectSignals(repo.language || null, tree, manifests['package.json'] || null)
+      : undefined;
+    const languages = await this.fetchLanguages(owner, repo.name);
+
+    return {
+      name: repo.name,
+      description: repo.description,
+      stars: repo.stargazers_count || 0,
+      forks: repo.forks_count || 0,
+      language: repo.language || null,  // Convert undefined to null
+      languages,
+      topics: repo.topics || [],
+      updated_at: repo.updated_at || '',
+      created_at: repo.created_at || '',
+      size: repo.size || 0,
+      has_readme,
+      readme_content,
+      readme_length,
+      readme_file,
+      readme_format,
+      is_fork: repo.fork || false,
+      open_issues: repo.open_issues_count || 0,
+      homepage: repo.homepage || null,  // NEW: For live demo detection
+      code_quality,
+      tech_stack,
+      signals,
+    };
+  }
+
   /**
    * Fetch pinned repositories using GraphQL
    */
@@ -244,13 +408,20 @@ export class GitHubService {
    * - Commit frequency: Average commits per month over last 6 months
    * - Active days: Number of unique days with commits (consistency indicator)
    * 
+   * APPROXIMATION: REST has no contribution calendar, so only the user's own
+   * commits in their 15 most recently updated repos are seen (no PRs, issues,
+   * reviews or work in other people's repos). The GraphQL service derives
+   * these metrics from contributionsCollection instead.
+   * 
    * @param username - GitHub username
    * @param repositories - List of user's repositories
+   * @param timeZone - IANA timezone used to bucket commits into days
    * @returns Activity metrics object
    */
   private static async calculateActivityData(
     username: string,
-    repositories: Repository[]
+    repositories: Repository[],
+    timeZone: string
   ): Promise<{
     totalCommits: number;
     lastCommitDate: string | null;
@@ -259,6 +430,9 @@ export class GitHubService {
     currentStreak: number;
     longestStreak: number;
     totalContributions: number;
+    heatmap?: ContributionDay[];
+    gaps?: ActivityGap[];
+    monthly?: MonthlyActivity[];
   }> {
     try {
       // Get the most recent non-fork repos to analyze genuine activity
@@ -282,6 +456,9 @@ export class GitHubService {
           });
 
           totalCommits += commits.length;
+          repo.commit_dates = commits
+            .map((commit) => commit.commit.author?.date)
+            .filter((date): date is string => !!date);
 
           commits.forEach((commit) => {
             const date = commit.commit.author?.date;
@@ -292,8 +469,9 @@ export class GitHubService {
               }
             }
           });
-        } catch {
-          // Skip repos with no commits or errors
+        } catch (error) {
+          // Skip repos that are gone or have no commits
+          rethrowUnlessMissing(error);
         }
       }
 
@@ -315,78 +493,18 @@ export class GitHubService {
       
       const commitFrequency = accountAgeMonths > 0 ? (recentCommits.length / accountAgeMonths) : 0;
 
-      // Calculate active days
-      const uniqueDays = new Set(
-        commitDates.map((date) => new Date(date).toLocaleDateString())
-      );
-      
-      // Calculate Streaks
-      const sortedDates = Array.from(uniqueDays)
-        .map(d => new Date(d))
-        .sort((a, b) => b.getTime() - a.getTime());
-      
-      let currentStreak = 0;
-      let longestStreak = 0;
-      let tempStreak = 0;
-      
-      // Check current streak (consecutive days starting from most recent)
-      // Allow 24-48h gap for "current" to account for timezones/today
-      const today = new Date();
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      if (sortedDates.length > 0) {
-        const lastCommit = sortedDates[0];
-        const isRecent = 
-          lastCommit.toDateString() === today.toDateString() || 
-          lastCommit.toDateString() === yesterday.toDateString();
-          
-        if (isRecent) {
-          currentStreak = 1;
-          for (let i = 0; i < sortedDates.length - 1; i++) {
-            const curr = sortedDates[i];
-            const next = sortedDates[i + 1];
-            const diffTime = Math.abs(curr.getTime() - next.getTime());
-            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-            
-            if (diffDays === 1) {
-              currentStreak++;
-            } else {
-              break;
-            }
-          }
-        }
-      }
-
-      // Calculate longest streak
-      if (sortedDates.length > 0) {
-        tempStreak = 1;
-        longestStreak = 1;
-        for (let i = 0; i < sortedDates.length - 1; i++) {
-          const curr = sortedDates[i];
-          const next = sortedDates[i + 1];
-          const diffTime = Math.abs(curr.getTime() - next.getTime());
-          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-          
-          if (diffDays === 1) {
-            tempStreak++;
-          } else {
-            tempStreak = 1;
-          }
-          longestStreak = Math.max(longestStreak, tempStreak);
-        }
-      }
+      // Active days, streaks, heatmap and monthly commits, bucketed in the user's timezone
+      const days = activityFromCommits(commitDates, { timeZone });
 
       return {
         totalCommits,
         lastCommitDate,
         commitFrequency,
-        activeDays: uniqueDays.size,
-        currentStreak,
-        longestStreak,
+        ...days,
         totalContributions: totalCommits, // Approximation for REST
       };
-    } catch {
+    } catch (error) {
+      rethrowUnlessMissing(error);
       return {
         totalCommits: 0,
         lastCommitDate: null,
@@ -400,94 +518,87 @@ export class GitHubService {
   }
 
   /**
-   * ENHANCEMENT: Detect code quality indicators
-   * Checks for CI/CD, tests, TypeScript, linting
+   * Fetch the file tree (TREE_DEPTH levels) in one recursive Git Trees call
    */
-  private static async detectCodeQuality(
+  private static async fetchTree(
     owner: string,
-    repo: string
-  ): Promise<{
-    hasCI: boolean;
-    hasTests: boolean;
-    hasTypeScript: boolean;
-    hasLinting: boolean;
-  }> {
-    const quality = {
-      hasCI: false,
-      hasTests: false,
-      hasTypeScript: false,
-      hasLinting: false,
-    };
-
+    repo: string,
+    branch: string | undefined
+  ): Promise<TreeEntry[] | null> {
     try {
-      // Check for .github/workflows (CI/CD)
-      try {
-        await octokit.repos.getContent({
-          owner,
-          repo,
-          path: '.github/workflows',
-        });
-        quality.hasCI = true;
-      } catch {
-        // No workflows directory
-      }
+      const { data } = await octokit.git.getTree({
+        owner,
+        repo,
+        tree_sha: branch || 'HEAD',
+        recursive: 'true',
+      });
 
-      // Check for test directories
-      const testPaths = ['test', 'tests', '__tests__', 'spec'];
-      for (const path of testPaths) {
-        try {
-          await octokit.repos.getContent({ owner, repo, path });
-          quality.hasTests = true;
-          break;
-        } catch {
-          // Path doesn't exist
-        }
-      }
+      return data.tree
+        .filter((entry) => entry.path && entry.path.split('/').length <= TREE_DEPTH)
+        .map((entry) => ({ path: entry.path as string, type: entry.type === 'tree' ? 'dir' : 'file' }));
+    } catch (error) {
+      // Empty repository (409) or gone
+      rethrowUnlessMissing(error);
+      return null;
+    }
+  }
 
-      // Check for tsconfig.json (TypeScript)
-      try {
-        await octokit.repos.getContent({
-          owner,
-          repo,
-          path: 'tsconfig.json',
-        });
-        quality.hasTypeScript = true;
-      } catch {
-        // No TypeScript
-      }
+  /**
+   * Per-language byte sizes (the REST API carries no linguist colors)
+   */
+  private static async fetchLanguages(owner: string, repo: string): Promise<RepoLanguage[] | undefined> {
+    try {
+      const { data } = await octokit.repos.listLanguages({ owner, repo });
+      return Object.entries(data)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, LANGUAGES_PER_REPO)
+        .map(([name, bytes]) => ({ name, bytes, color: null }));
+    } catch (error) {
+      rethrowUnlessMissing(error);
+      return undefined;
+    }
+  }
 
-      // Check for linting config
-      const lintFiles = ['.eslintrc', '.eslintrc.js', '.eslintrc.json', 'prettier.config.js', '.prettierrc'];
-      for (const file of lintFiles) {
-        try {
-          await octokit.repos.getContent({ owner, repo, path: file });
-          quality.hasLinting = true;
-          break;
-        } catch {
-          // File doesn't exist
+  /**
+   * Fetch the dependency manifests present at the root of the file tree
+   */
+  private static async fetchManifests(
+    owner: string,
+    repo: string,
+    tree: TreeEntry[]
+  ): Promise<Partial<Record<ManifestFile, string>>> {
+    const manifests: Partial<Record<ManifestFile, string>> = {};
+    const present = MANIFEST_FILES.filter((file) =>
+      tree.some((entry) => entry.type === 'file' && entry.path === file)
+    );
+
+    await Promise.all(present.map(async (file) => {
+      try {
+        const { data } = await octokit.repos.getContent({ owner, repo, path: file });
+        if (!Array.isArray(data) && 'content' in data) {
+          manifests[file] = Buffer.from(data.content, 'base64').toString('utf-8');
         }
+      } catch (error) {
+        // Manifest removed since the tree was read
+        rethrowUnlessMissing(error);
       }
-    } catch {
-      // If any major error, return defaults
-    }
+    }));
 
-    return quality;
+    return manifests;
   }
 
   /**
-   * Calculate language distribution
+   * Detect role-track signals from the root of the file tree and package.json
    */
-  private static calculateLanguageStats(
-    repositories: Repository[]
-  ): Record<string, number> {
-    const stats: Record<string, number> = {};
-
-    repositories.forEach((repo) => {
-      if (repo.language) {
-        stats[repo.language] = (stats[repo.language] || 0) + 1;
-      }
-    });
-
-    return stats;
+  private static detectSignals(
+    language: string | null,
+    tree: TreeEntry[],
+    packageJson: string | null
+  ): RepoSignals {
+    return detectRepoSignals(
+      tree.filter((entry) => !entry.path.includes('/')).map((entry) => ({ name: entry.path, type: entry.type })),
+      packageJson,
+      language
+    );
   }
 }
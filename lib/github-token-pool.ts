@@ -0,0 +1,265 @@
+/**
+ * GitHub Token Pool - Rate-Limit-Aware Token Selection
+ *
+ * Shared by the GraphQL and REST services so every GitHub request draws from
+ * the same view of remaining quota.
+ *
+ * Key Features:
+ * - Reads tokens from GITHUB_TOKENS (comma-separated) or GITHUB_TOKEN
+ * - Tracks `X-RateLimit-Remaining` / `X-RateLimit-Reset` per token and per
+ *   resource (REST "core" and "graphql" have separate budgets)
+ * - Picks the token with the most remaining quota instead of a random one
+ * - Retires exhausted tokens until their reset time
+ * - Retries a request on another token after a 403/429 or secondary limit
+ * - Exposes pool health so callers can tell users when to try again
+ */
+
+export type RateLimitResource = 'core' | 'graphql';
+
+/**
+ * Thrown when every token in the pool is exhausted for a resource
+ */
+export class RateLimitError extends Error {
+  resetAt: string | null;   // ISO timestamp of the earliest token reset
+
+  constructor(message: string, resetAt: string | null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+  }
+}
+
+export interface TokenPoolHealth {
+  totalTokens: number;
+  resources: Record<RateLimitResource, {
+    available: number;            // Tokens currently usable
+    exhausted: number;            // Tokens retired until reset
+    remaining: number | null;     // Sum of last known remaining quota (null if never seen)
+    nextResetAt: string | null;   // Earliest reset among exhausted tokens
+  }>;
+}
+
+interface ResourceState {
+  remaining: number | null;
+  resetAt: number | null;     // Epoch ms
+  exhausted: boolean;
+}
+
+interface TokenState {
+  token: string;
+  resources: Record<RateLimitResource, ResourceState>;
+}
+
+// Secondary limits rarely say how long to wait; back off for a minute by default
+const SECONDARY_LIMIT_BACKOFF_MS = 60 * 1000;
+
+const RESOURCES: RateLimitResource[] = ['core', 'graphql'];
+
+let pool: TokenState[] | null = null;
+
+const createState = (token: string): TokenState => ({
+  token,
+  resources: {
+    core: { remaining: null, resetAt: null, exhausted: false },
+    graphql: { remaining: null, resetAt: null, exhausted: false },
+  },
+});
+
+const getPool = (): TokenState[] => {
+  if (pool) return pool;
+
+  const tokens = (process.env.GITHUB_TOKENS || '')
+    .split(',')
+    .map(t => t.trim())
+    .filter(t => t.length > 0);
+
+  if (tokens.length === 0 && process.env.GITHUB_TOKEN) {
+    tokens.push(process.env.GITHUB_TOKEN);
+  }
+
+  // An empty token means unauthenticated requests (still rate-limited, just lower)
+  pool = (tokens.length > 0 ? tokens : ['']).map(createState);
+  return pool;
+};
+
+/**
+ * Read a header from either a fetch `Headers` object or Octokit's plain object
+ */
+const readHeader = (headers: any, name: string): string | null => {
+  if (!headers) return null;
+  if (typeof headers.get === 'function') return headers.get(name);
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return value === undefined || value === null ? null : String(value);
+};
+
+export class GitHubTokenPool {
+  /**
+   * Pick the usable token with the most remaining quota for a resource
+   * Throws RateLimitError if every token is retired
+   */
+  static acquire(resource: RateLimitResource): string {
+    const now = Date.now();
+    const tokens = getPool();
+
+    // Un-retire tokens whose reset time has passed
+    tokens.forEach(state => {
+      const limit = state.resources[resource];
+      if (limit.exhausted && limit.resetAt !== null && limit.resetAt <= now) {
+        limit.exhausted = false;
+        limit.remaining = null;
+      }
+    });
+
+    const usable = tokens.filter(state => !state.resources[resource].exhausted);
+    if (usable.length === 0) {
+      throw this.exhaustedError(resource);
+    }
+
+    // Unknown quota (never used) sorts first so load spreads across the pool
+    usable.sort((a, b) => {
+      const ra = a.resources[resource].remaining ?? Infinity;
+      const rb = b.resources[resource].remaining ?? Infinity;
+      return rb - ra;
+    });
+
+    return usable[0].token;
+  }
+
+  /**
+   * Record quota information from a response's rate-limit headers
+   */
+  static reportHeaders(token: string, resource: RateLimitResource, headers: any): void {
+    const remaining = readHeader(headers, 'x-ratelimit-remaining');
+    const reset = readHeader(headers, 'x-ratelimit-reset');
+    if (remaining === null) return;
+
+    this.report(
+      token,
+      resource,
+      parseInt(remaining, 10),
+      reset ? parseInt(reset, 10) * 1000 : null
+    );
+  }
+
+  /**
+   * Record remaining quota for a token; retires it when nothing is left
+   */
+  static report(token: string, resource: RateLimitResource, remaining: number, resetAt: number | null): void {
+    const state = getPool().find(s => s.token === token);
+    if (!state || Number.isNaN(remaining)) return;
+
+    const limit = state.resources[resource];
+    limit.remaining = remaining;
+    if (resetAt !== null) limit.resetAt = resetAt;
+    if (remaining <= 0) {
+      limit.exhausted = true;
+      // No (current) reset time: back off instead of retiring the token for good
+      if (limit.resetAt === null || limit.resetAt <= Date.now()) {
+        limit.resetAt = Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+      }
+    }
+  }
+
+  /**
+   * Retire a token until `resetAt` (epoch ms)
+   */
+  static markExhausted(token: string, resource: RateLimitResource, resetAt: number): void {
+    const state = getPool().find(s => s.token === token);
+    if (!state) return;
+
+    const limit = state.resources[resource];
+    limit.exhausted = true;
+    limit.remaining = 0;
+    limit.resetAt = Math.max(limit.resetAt ?? 0, resetAt);
+  }
+
+  /**
+   * Decide whether a failed response was a (primary or secondary) rate limit.
+   * Returns the epoch ms at which the token can be used again, or null if the
+   * failure was something else (e.g. a 403 for a private resource).
+   */
+  static detectRateLimit(status: number, headers: any, message = ''): number | null {
+    if (status !== 403 && status !== 429) return null;
+
+    // Retry-After is either delay seconds or an HTTP date
+    const retryAfter = readHeader(headers, 'retry-after');
+    if (retryAfter) {
+      const retryAt = /^\d+$/.test(retryAfter.trim())
+        ? Date.now() + parseInt(retryAfter, 10) * 1000
+        : Date.parse(retryAfter);
+      return Number.isFinite(retryAt) ? retryAt : Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+    }
+
+    const remaining = readHeader(headers, 'x-ratelimit-remaining');
+    const reset = parseInt(readHeader(headers, 'x-ratelimit-reset') || '', 10);
+    if (remaining === '0') {
+      return Number.isFinite(reset) ? reset * 1000 : Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+    }
+
+    if (status === 429 || /rate limit/i.test(message)) {
+      return Date.now() + SECONDARY_LIMIT_BACKOFF_MS;
+    }
+
+    return null;
+  }
+
+  /**
+   * Run a request with a pooled token, retrying on another token whenever the
+   * request throws a RateLimitError. Other errors are rethrown immediately.
+   */
+  static async withToken<T>(resource: RateLimitResource, run: (token: string) => Promise<T>): Promise<T> {
+    const attempts = getPool().length;
+    let lastError: RateLimitError | null = null;
+
+    for (let i = 0; i < attempts; i++) {
+      const token = this.acquire(resource);
+      try {
+        return await run(token);
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) throw error;
+        lastError = error;
+        console.warn(`GitHub ${resource} rate limit hit, retrying with another token (${i + 1}/${attempts})`);
+      }
+    }
+
+    throw lastError || this.exhaustedError(resource);
+  }
+
+  /**
+   * Current pool health (never exposes the tokens themselves)
+   */
+  static getHealth(): TokenPoolHealth {
+    const tokens = getPool();
+    const now = Date.now();
+
+    const resources = {} as TokenPoolHealth['resources'];
+    RESOURCES.forEach(resource => {
+      const limits = tokens.map(s => s.resources[resource]);
+      const exhausted = limits.filter(l => l.exhausted && (l.resetAt === null || l.resetAt > now));
+      const known = limits.filter(l => l.remaining !== null);
+      const resets = exhausted
+        .map(l => l.resetAt)
+        .filter((r): r is number => r !== null);
+
+      resources[resource] = {
+        available: limits.length - exhausted.length,
+        exhausted: exhausted.length,
+        remaining: known.length > 0 ? known.reduce((sum, l) => sum + (l.remaining || 0), 0) : null,
+        nextResetAt: resets.length > 0 ? new Date(Math.min(...resets)).toISOString() : null,
+      };
+    });
+
+    return { totalTokens: tokens.length, resources };
+  }
+
+  /**
+   * Build the error thrown when no token is left for a resource
+   */
+  private static exhaustedError(resource: RateLimitResource): RateLimitError {
+    const resetAt = this.getHealth().resources[resource].nextResetAt;
+    const when = resetAt
+      ? ` Try again at ${new Date(resetAt).toISOString().slice(11, 16)} UTC.`
+      : ' Please try again later.';
+    return new RateLimitError(`GitHub API rate limit exceeded.${when}`, resetAt);
+  }
+}
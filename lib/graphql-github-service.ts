@@ -1,52 +1,165 @@
 /**
  * GraphQL-Based GitHub Service - Optimized for Rate Limits
  * 
- * Reduces API calls from 130+ per profile to 2-3 using GitHub's GraphQL API.
+ * Reduces API calls from 130+ per profile to a handful using GitHub's GraphQL API.
  * 
  * Key improvements:
- * - Single query fetches user, repos, READMEs, commits, issues, PRs
+ * - Profile + pinned repos in one query, owned repos paged by cursor
+ * - Heavy README/tooling/commit lookups batched for candidate repos only
  * - ~98% reduction in API calls
  * - Enables analyzing ~1,600 users/hour instead of ~38
  */
 
 import { GitHubAnalysisData, Repository, GitHubUser } from './github-service';
+import { GitHubTokenPool, RateLimitError } from './github-token-pool';
+import { detectRepoSignals } from './repo-signals';
+import { TreeEntry, detectCodeQuality } from './tooling-detectors';
+import { README_PATHS, isReadmeName, readmeFormat, toMarkdown } from './readme-format';
+import { MANIFEST_FILES, ManifestFile, detectTechStack } from './tech-stack';
+import { LANGUAGES_PER_REPO, aggregateLanguageStats } from './language-stats';
+import {
+  CONTRIBUTION_YEARS, ContributionBreakdown, ContributionDay, ContributionEvent,
+  activityFromCalendar, activityFromCommits, monthlyActivity, resolveTimeZone,
+} from './contribution-activity';
+import { ProgressListener, emitProgress } from './analysis-progress';
 
 const GITHUB_GRAPHQL = 'https://api.github.com/graphql';
 
 /**
- * Token Rotation
- * Rotates through multiple GitHub tokens to multiply rate limits.
+ * Pagination limits
+ * Repositories are listed in small pages of lightweight metadata; the heavy
+ * README/tree/history lookups only run for a bounded set of candidate repos.
  */
-const getGitHubToken = () => {
-  // Check for rotated tokens first
-  if (process.env.GITHUB_TOKENS) {
-    const tokens = process.env.GITHUB_TOKENS.split(',').filter(t => t.trim().length > 0);
-    if (tokens.length > 0) {
-      // Pick a random token to distribute load
-      return tokens[Math.floor(Math.random() * tokens.length)].trim();
+const REPO_PAGE_SIZE = 50;
+const DETAIL_BATCH_SIZE = 10;
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Hard ceiling on how many repositories are paged through per profile
+const getMaxRepos = () => readLimit(process.env.GITHUB_MAX_REPOS, 300);
+
+// How many repositories (pinned first, then most recently updated) get heavy lookups
+const getMaxDetailedRepos = () => readLimit(process.env.GITHUB_MAX_DETAILED_REPOS, 30);
+
+/**
+ * One aliased lookup per README_PATHS entry (readme0, readme1, ...) with its
+ * text, for detail candidates
+ */
+const readmeLookups = () => README_PATHS
+  .map((path, i) => `readme${i}: object(expression: "HEAD:${path}") { ... on Blob { text byteSize } }`)
+  .join('\n    ');
+
+// README locations outside the root, probed by the lightweight listing (size
+// only); a README at the root, of any name or casing, shows up in its root listing
+const NESTED_README_PATHS = README_PATHS.filter(path => path.includes('/'));
+
+const readmeProbes = () => NESTED_README_PATHS
+  .map((path, i) => `readmeProbe${i}: object(expression: "HEAD:${path}") { ... on Blob { byteSize } }`)
+  .join('\n    ');
+
+/**
+ * One aliased lookup per root dependency manifest (manifest0, manifest1, ...)
+ */
+const manifestLookups = () => MANIFEST_FILES
+  .map((file, i) => `manifest${i}: object(expression: "HEAD:${file}") { ... on Blob { text } }`)
+  .join('\n    ');
+
+/**
+ * Lightweight repository metadata (cheap enough to page through every repo)
+ */
+const REPO_SUMMARY_FRAGMENT = `
+  fragment RepoSummary on Repository {
+    id
+    name
+    description
+    stargazerCount
+    forkCount
+    updatedAt
+    createdAt
+    homepageUrl
+    isFork
+    diskUsage
+    primaryLanguage { name }
+    languages(first: ${LANGUAGES_PER_REPO}, orderBy: {field: SIZE, direction: DESC}) {
+      edges { size node { name color } }
+    }
+    repositoryTopics(first: 10) {
+      nodes { topic { name } }
     }
+    
+    # README presence: root file names (one level, no contents) plus the nested locations
+    rootEntries: object(expression: "HEAD:") {
+      ... on Tree { entries { name type size } }
+    }
+    ${readmeProbes()}
+    
+    issues { totalCount }
+    pullRequests { totalCount }
   }
-  // Fallback to single token
-  return process.env.GITHUB_TOKEN || '';
-};
+`;
 
 /**
- * Query to fetch user ID first (needed for commit filtering)
+ * Heavy repository lookups (README text, tooling probes, commit history)
  */
-const GET_USER_ID_QUERY = `
-  query GetUserId($username: String!) {
-    user(login: $username) {
-      id
+const REPO_DETAILS_FRAGMENT = `
+  fragment RepoDetails on Repository {
+    id
+    
+    # README content (every common name and location)
+    ${readmeLookups()}
+    
+    # File tree, TREE_DEPTH levels deep (tooling detectors + role signals)
+    rootTree: object(expression: "HEAD:") {
+      ... on Tree {
+        entries {
+          name type
+          object {
+            ... on Tree {
+              entries {
+                name type
+                object {
+                  ... on Tree { entries { name type } }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+    
+    # Dependency manifests (tech stack + role signals)
+    ${manifestLookups()}
+    
+    # Commit history (general)
+    defaultBranchRef {
+      target {
+        ... on Commit {
+          history(first: 100) {
+            totalCount
+            nodes {
+              committedDate
+            }
+          }
+          # Check if user actually contributed (for forks)
+          authoredBy: history(first: 1, author: {id: $authorId}) {
+            totalCount
+          }
+        }
+      }
     }
   }
 `;
 
 /**
- * GraphQL query to fetch complete profile data in one request
+ * Profile query: user fields and pinned repositories (no repository listing)
  */
 const PROFILE_QUERY = `
-  query GetGitHubProfile($username: String!, $authorId: ID!) {
+  query GetGitHubProfile($username: String!) {
     user(login: $username) {
+      id
       login
       name
       bio
@@ -54,7 +167,6 @@ const PROFILE_QUERY = `
       createdAt
       updatedAt
       followers { totalCount }
-      followers { totalCount }
       following { totalCount }
       company
       location
@@ -66,228 +178,138 @@ const PROFILE_QUERY = `
       issues { totalCount }
       pullRequests { totalCount }
       repositoriesContributedTo { totalCount }
+      contributionsCollection { contributionYears }
       
       # Pinned repositories (prioritized for scoring)
       pinnedItems(first: 6, types: REPOSITORY) {
         nodes {
           ... on Repository {
-            name
-            description
-            stargazerCount
-            forkCount
-            updatedAt
-            createdAt
-            homepageUrl
-            isFork
-            primaryLanguage { name }
-            repositoryTopics(first: 10) {
-              nodes { topic { name } }
-            }
-            
-            # README content
-            readme: object(expression: "HEAD:README.md") {
-              ... on Blob { 
-                text 
-                byteSize
-              }
-            }
-            
-            # Alternative README locations
-            readmeLower: object(expression: "HEAD:readme.md") {
-              ... on Blob { text }
-            }
-            
-            # CI/CD detection
-            githubWorkflows: object(expression: "HEAD:.github/workflows") {
-              ... on Tree { 
-                entries { name }
-              }
-            }
-            
-            # Test directories
-            testsDir: object(expression: "HEAD:tests") {
-              ... on Tree { oid }
-            }
-            testDir: object(expression: "HEAD:test") {
-              ... on Tree { oid }
-            }
-            __testsDir: object(expression: "HEAD:__tests__") {
-              ... on Tree { oid }
-            }
-            specDir: object(expression: "HEAD:spec") {
-              ... on Tree { oid }
-            }
-            
-            # TypeScript detection
-            tsconfig: object(expression: "HEAD:tsconfig.json") {
-              ... on Blob { oid }
-            }
-            
-            # Linting detection
-            eslintrc: object(expression: "HEAD:.eslintrc") {
-              ... on Blob { oid }
-            }
-            eslintJson: object(expression: "HEAD:.eslintrc.json") {
-              ... on Blob { oid }
-            }
-            prettierrc: object(expression: "HEAD:.prettierrc") {
-              ... on Blob { oid }
-            }
-            
-            # Commit history (general)
-            defaultBranchRef {
-              target {
-                ... on Commit {
-                  history(first: 100) {
-                    totalCount
-                    nodes {
-                      committedDate
-                    }
-                  }
-                  # Check if user actually contributed (for forks)
-                  authoredBy: history(first: 1, author: {id: $authorId}) {
-                    totalCount
-                  }
-                }
-              }
-            }
-            
-            # Issues and PRs
-            issues { totalCount }
-            pullRequests { totalCount }
+            ...RepoSummary
           }
         }
       }
-      
-      # All repositories (fallback for non-pinned) - REDUCED from 100 to 20 to prevent timeouts
-      repositories(first: 20, ownerAffiliations: OWNER, 
+    }
+  }
+  ${REPO_SUMMARY_FRAGMENT}
+`;
+
+/**
+ * Cursor-paginated listing of owned repositories (lightweight metadata only)
+ */
+const REPOSITORIES_PAGE_QUERY = `
+  query GetRepositoriesPage($username: String!, $pageSize: Int!, $cursor: String) {
+    user(login: $username) {
+      repositories(first: $pageSize, after: $cursor, ownerAffiliations: OWNER,
                    orderBy: {field: UPDATED_AT, direction: DESC}) {
         totalCount
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         nodes {
-          name
-          description
-          stargazerCount
-          forkCount
-          updatedAt
-          createdAt
-          homepageUrl
-          isFork
-          primaryLanguage { name }
-          repositoryTopics(first: 10) {
-            nodes { topic { name } }
-          }
-          
-          readme: object(expression: "HEAD:README.md") {
-            ... on Blob { 
-              text
-              byteSize
-            }
-          }
-          
-          githubWorkflows: object(expression: "HEAD:.github/workflows") {
-            ... on Tree { entries { name } }
-          }
-          
-          testsDir: object(expression: "HEAD:tests") {
-            ... on Tree { oid }
-          }
-          testDir: object(expression: "HEAD:test") {
-            ... on Tree { oid }
-          }
-          
-          tsconfig: object(expression: "HEAD:tsconfig.json") {
-            ... on Blob { oid }
-          }
-          
-          eslintrc: object(expression: "HEAD:.eslintrc") {
-            ... on Blob { oid }
-          }
-          
-          defaultBranchRef {
-            target {
-              ... on Commit {
-                history(first: 100) {
-                  totalCount
-                  nodes { committedDate }
-                }
-                # Check if user actually contributed (for forks)
-                authoredBy: history(first: 1, author: {id: $authorId}) {
-                  totalCount
-                }
-              }
-            }
-          }
-          
-          issues { totalCount }
+          ...RepoSummary
         }
       }
     }
   }
+  ${REPO_SUMMARY_FRAGMENT}
 `;
 
-export class GraphQLGitHubService {
-  /**
-   * Fetch complete GitHub profile data using GraphQL (2-3 API calls instead of 130+)
-   */
-  static async fetchUserData(username: string): Promise<GitHubAnalysisData> {
-    try {
-      // Step 1: Fetch User ID first (needed for commit filtering)
-      const idResponse = await fetch(GITHUB_GRAPHQL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getGitHubToken()}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: GET_USER_ID_QUERY,
-          variables: { username }
-        })
-      });
-
-      if (!idResponse.ok) {
-        throw new Error(`GraphQL ID request failed: ${idResponse.statusText}`);
-      }
-
-      const idData = await idResponse.json();
-      if (idData.errors || !idData.data?.user?.id) {
-        // Fallback: If we can't get ID, we can't filter commits by author. 
-        // We could proceed without it but let's throw to trigger REST fallback if strictly needed
-        // OR we can just pass null and handle it? 
-        // The query requires $authorId : ID! so we must have it.
-        throw new Error('Could not resolve User ID for commit filtering');
+/**
+ * Heavy lookups for a batch of candidate repositories, addressed by node ID
+ */
+const REPOSITORY_DETAILS_QUERY = `
+  query GetRepositoryDetails($ids: [ID!]!, $authorId: ID!) {
+    nodes(ids: $ids) {
+      ... on Repository {
+        ...RepoDetails
       }
+    }
+  }
+  ${REPO_DETAILS_FRAGMENT}
+`;
 
-      const authorId = idData.data.user.id;
+/**
+ * One repository by name with summary and details (suggestion verification)
+ */
+const REPOSITORY_QUERY = `
+  query GetRepository($username: String!, $name: String!, $authorId: ID!) {
+    repository(owner: $username, name: $name) {
+      ...RepoSummary
+      ...RepoDetails
+    }
+  }
+  ${REPO_SUMMARY_FRAGMENT}
+  ${REPO_DETAILS_FRAGMENT}
+`;
 
-      // Step 2: Single GraphQL query fetches everything using authorId
-      const response = await fetch(GITHUB_GRAPHQL, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${getGitHubToken()}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: PROFILE_QUERY,
-          variables: { username, authorId }
-        })
-      });
+const USER_ID_QUERY = `
+  query GetUserId($username: String!) {
+    user(login: $username) { id }
+  }
+`;
 
-      if (!response.ok) {
-        throw new Error(`GraphQL request failed: ${response.statusText}`);
+/**
+ * Contribution calendar and per-type totals, one aliased collection per
+ * calendar year (a collection may span at most one year)
+ */
+const contributionsQuery = (years: number[]) => {
+  const now = new Date();
+  const collections = years.map(year => {
+    const to = year === now.getUTCFullYear() ? now.toISOString() : `${year}-12-31T23:59:59Z`;
+    return `y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${to}") { ...ContributionYear }`;
+  });
+  return `
+  query GetContributions($username: String!) {
+    user(login: $username) {
+      ${collections.join('\n      ')}
+    }
+  }
+  fragment ContributionYear on ContributionsCollection {
+    totalCommitContributions
+    totalPullRequestContributions
+    totalIssueContributions
+    totalPullRequestReviewContributions
+    restrictedContributionsCount
+    contributionCalendar {
+      weeks {
+        contributionDays { date contributionCount }
       }
+    }
+    # Dated contributions for the monthly timeline
+    commitContributionsByRepository(maxRepositories: 25) {
+      contributions(first: 100) { nodes { occurredAt commitCount } }
+    }
+    pullRequestContributions(first: 100) { nodes { occurredAt } }
+    issueContributions(first: 100) { nodes { occurredAt } }
+  }
+`;
+};
 
-      const { data, errors } = await response.json();
-      
-      if (errors) {
-        console.error('GraphQL errors:', errors);
-        throw new Error(errors[0]?.message || 'GraphQL query failed');
-      }
+export class GraphQLGitHubService {
+  /**
+   * Fetch complete GitHub profile data using GraphQL
+   * (1 profile call + 1 per page of repos + 1 per batch of candidate repos + 1 contribution calendar)
+   */
+  static async fetchUserData(
+    username: string,
+    onProgress?: ProgressListener,
+    requestedTimeZone?: string | null
+  ): Promise<GitHubAnalysisData> {
+    try {
+      // Step 1: Profile + pinned repos (also resolves the user ID for commit filtering)
+      const data = await this.graphqlRequest(PROFILE_QUERY, { username });
 
       if (!data?.user) {
         throw new Error(`User ${username} not found`);
       }
 
       const userData = data.user;
+      const authorId = userData.id;
+      emitProgress(onProgress, 'user', `Resolved user ID for @${userData.login}`, { login: userData.login });
+
+      // Step 2: Page through every owned repo (lightweight metadata only)
+      const { nodes: rawOwnedRepos, totalCount } = await this.fetchRepositoryPages(username, onProgress);
 
       // Transform GraphQL response to match existing interface
       const user: GitHubUser = {
@@ -297,7 +319,7 @@ export class GraphQLGitHubService {
         avatar_url: userData.avatarUrl,
         followers: userData.followers.totalCount,
         following: userData.following.totalCount,
-        public_repos: userData.repositories.totalCount,
+        public_repos: totalCount,
         created_at: userData.createdAt,
         updated_at: userData.updatedAt,
         company: userData.company,
@@ -312,20 +334,49 @@ export class GraphQLGitHubService {
 
       // Combine pinned and regular repos (raw GraphQL data)
       const rawPinnedRepos = userData.pinnedItems.nodes;
-      const rawAllRepos = userData.repositories.nodes;
       
       // Deduplicate raw repos
       const rawRepoMap = new Map<string, any>();
-      [...rawPinnedRepos, ...rawAllRepos].forEach((repo: any) => {
+      [...rawPinnedRepos, ...rawOwnedRepos].forEach((repo: any) => {
         if (!rawRepoMap.has(repo.name)) {
           rawRepoMap.set(repo.name, repo);
         }
       });
       
+      // Step 3: Heavy lookups only for candidate repos (pinned first, then most recent)
+      const candidates = Array.from(rawRepoMap.values()).slice(0, getMaxDetailedRepos());
+      const details = await this.fetchRepositoryDetails(candidates.map(r => r.id), authorId, onProgress);
+      candidates.forEach(repo => {
+        const detail = details.get(repo.id);
+        if (detail) {
+          rawRepoMap.set(repo.name, { ...repo, ...detail });
+        }
+      });
+
       const rawRepositories = Array.from(rawRepoMap.values());
 
-      // Calculate activity data BEFORE transforming (need raw GraphQL data)
-      const activityData = this.calculateActivityData(rawRepositories);
+      // Step 4: Activity from the contribution calendar; default-branch history
+      // (raw GraphQL data, commits by anyone) only when the calendar is unavailable
+      const years: number[] = (userData.contributionsCollection?.contributionYears || []).slice(0, CONTRIBUTION_YEARS);
+      const contributions = await this.fetchContributions(username, years);
+      const { timeZone, source: timeZoneSource } = resolveTimeZone(requestedTimeZone, userData.location);
+      let totalCommits: number;
+      let activityData: GitHubAnalysisData['activityData'];
+      if (contributions) {
+        totalCommits = contributions.breakdown.commits;
+        activityData = {
+          source: 'contributions',
+          timeZone,
+          timeZoneSource,
+          contributions: contributions.breakdown,
+          ...activityFromCalendar(contributions.days, { timeZone }),
+          monthly: monthlyActivity(contributions.events, { timeZone }),
+        };
+      } else {
+        const { totalCommits: historyCommits, ...history } = this.calculateActivityData(rawRepositories, timeZone);
+        totalCommits = historyCommits;
+        activityData = { source: 'commits', timeZone, timeZoneSource, ...history };
+      }
 
       // NOW transform to Repository interface
       const repositories = rawRepositories.map(repo => this.transformRepo(repo));
@@ -333,8 +384,8 @@ export class GraphQLGitHubService {
       // Extract pinned repo names
       const pinnedRepoNames = userData.pinnedItems.nodes.map((r: any) => r.name);
 
-      // Calculate language stats
-      const languageStats = this.calculateLanguageStats(repositories);
+      // Byte-weighted language breakdown of original repos
+      const languageStats = aggregateLanguageStats(repositories);
 
       // Detect badges
       const badges = await this.detectBadges(username);
@@ -343,74 +394,303 @@ export class GraphQLGitHubService {
         user,
         repositories,
         pinnedRepos: pinnedRepoNames,
-        totalCommits: activityData.totalCommits,
+        totalCommits,
         languageStats,
         badges, // NEW: Gamification badges
-        activityData: {
-          lastCommitDate: activityData.lastCommitDate,
-          commitFrequency: activityData.commitFrequency,
-          activeDays: activityData.activeDays,
-          currentStreak: activityData.currentStreak,
-          longestStreak: activityData.longestStreak,
-          totalContributions: activityData.totalContributions,
-        },
+        activityData,
       };
 
     } catch (error: any) {
       console.error('GraphQL fetch error:', error);
+      // Keep rate-limit errors intact so callers can report the reset time
+      if (error instanceof RateLimitError) throw error;
       throw new Error(`Failed to fetch GitHub data: ${error.message}`);
     }
   }
 
+  /**
+   * Re-fetch specific repositories (summary and details) without re-running the
+   * whole profile fetch. Repos that cannot be read (renamed, deleted, owned by
+   * someone else) are left out.
+   */
+  static async fetchRepositories(username: string, names: string[]): Promise<Repository[]> {
+    const data = await this.graphqlRequest(USER_ID_QUERY, { username });
+    if (!data?.user) {
+      throw new Error(`User ${username} not found`);
+    }
+
+    const repos = await Promise.all(names.map(async (name) => {
+      try {
+        const result = await this.graphqlRequest(REPOSITORY_QUERY, { username, name, authorId: data.user.id });
+        return result?.repository ? this.transformRepo(result.repository) : null;
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.warn(`Could not re-fetch ${username}/${name}:`, error);
+        return null;
+      }
+    }));
+
+    return repos.filter((repo): repo is Repository => repo !== null);
+  }
+
+  /**
+   * Execute a GraphQL query with a pooled token and return its `data` payload
+   * Rate-limited responses retire the token and retry on the next one.
+   */
+  private static async graphqlRequest(query: string, variables: Record<string, unknown>): Promise<any> {
+    return GitHubTokenPool.withToken('graphql', async (token) => {
+      const response = await fetch(GITHUB_GRAPHQL, {
+        method: 'POST',
+        headers: {
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables })
+      });
+
+      GitHubTokenPool.reportHeaders(token, 'graphql', response.headers);
+
+      if (!response.ok) {
+        const body = await response.text();
+        const resetAt = GitHubTokenPool.detectRateLimit(response.status, response.headers, body);
+        if (resetAt !== null) {
+          GitHubTokenPool.markExhausted(token, 'graphql', resetAt);
+          throw new RateLimitError('GitHub GraphQL rate limit exceeded', new Date(resetAt).toISOString());
+        }
+        throw new Error(`GraphQL request failed: ${response.statusText}`);
+      }
+
+      const { data, errors } = await response.json();
+
+      if (errors) {
+        // Primary GraphQL limits come back as HTTP 200 with a RATE_LIMITED error
+        if (errors.some((e: any) => e.type === 'RATE_LIMITED')) {
+          const resetAt = GitHubTokenPool.detectRateLimit(429, response.headers, 'rate limit') as number;
+          GitHubTokenPool.markExhausted(token, 'graphql', resetAt);
+          throw new RateLimitError('GitHub GraphQL rate limit exceeded', new Date(resetAt).toISOString());
+        }
+        console.error('GraphQL errors:', errors);
+        throw new Error(errors[0]?.message || 'GraphQL query failed');
+      }
+
+      return data;
+    });
+  }
+
+  /**
+   * Page through owned repositories using `pageInfo.endCursor`, up to GITHUB_MAX_REPOS
+   */
+  private static async fetchRepositoryPages(
+    username: string,
+    onProgress?: ProgressListener
+  ): Promise<{ nodes: any[]; totalCount: number }> {
+    const maxRepos = getMaxRepos();
+    const nodes: any[] = [];
+    let totalCount = 0;
+    let cursor: string | null = null;
+
+    do {
+      const data = await this.graphqlRequest(REPOSITORIES_PAGE_QUERY, {
+        username,
+        pageSize: Math.min(REPO_PAGE_SIZE, maxRepos - nodes.length),
+        cursor,
+      });
+
+      const page = data?.user?.repositories;
+      if (!page) break;
+
+      totalCount = page.totalCount;
+      nodes.push(...page.nodes);
+      emitProgress(onProgress, 'repos', `Fetched ${nodes.length} of ${totalCount} repositories`, {
+        fetched: nodes.length,
+        total: totalCount,
+      });
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor && nodes.length < maxRepos);
+
+    if (nodes.length < totalCount) {
+      console.warn(`Repository listing capped at ${nodes.length} of ${totalCount} (GITHUB_MAX_REPOS)`);
+    }
+
+    return { nodes, totalCount };
+  }
+
+  /**
+   * Fetch README/tooling/history details for candidate repos in small batches
+   */
+  private static async fetchRepositoryDetails(
+    ids: string[],
+    authorId: string,
+    onProgress?: ProgressListener
+  ): Promise<Map<string, any>> {
+    const details = new Map<string, any>();
+
+    for (let i = 0; i < ids.length; i += DETAIL_BATCH_SIZE) {
+      const batch = ids.slice(i, i + DETAIL_BATCH_SIZE);
+      const data = await this.graphqlRequest(REPOSITORY_DETAILS_QUERY, { ids: batch, authorId });
+
+      (data?.nodes || []).forEach((node: any) => {
+        if (node?.id) details.set(node.id, node);
+      });
+      emitProgress(onProgress, 'repos', `Inspected ${Math.min(i + DETAIL_BATCH_SIZE, ids.length)} of ${ids.length} candidate repositories`, {
+        inspected: Math.min(i + DETAIL_BATCH_SIZE, ids.length),
+        candidates: ids.length,
+      });
+    }
+
+    return details;
+  }
+
+  /**
+   * Contribution calendar days and per-type totals across the given years.
+   * Returns null when the calendar cannot be read (the caller falls back to commit history).
+   */
+  private static async fetchContributions(
+    username: string,
+    years: number[]
+  ): Promise<{ days: ContributionDay[]; events: ContributionEvent[]; breakdown: ContributionBreakdown } | null> {
+    if (years.length === 0) return null;
+
+    try {
+      const data = await this.graphqlRequest(contributionsQuery(years), { username });
+      const collections = years.map(year => data?.user?.[`y${year}`]).filter(Boolean);
+      if (collections.length === 0) return null;
+
+      const breakdown: ContributionBreakdown = { commits: 0, pullRequests: 0, issues: 0, reviews: 0, restricted: 0 };
+      const days: ContributionDay[] = [];
+      const events: ContributionEvent[] = [];
+      collections.forEach((c: any) => {
+        breakdown.commits += c.totalCommitContributions || 0;
+        breakdown.pullRequests += c.totalPullRequestContributions || 0;
+        breakdown.issues += c.totalIssueContributions || 0;
+        breakdown.reviews += c.totalPullRequestReviewContributions || 0;
+        breakdown.restricted += c.restrictedContributionsCount || 0;
+        c.contributionCalendar?.weeks?.forEach((week: any) => {
+          week.contributionDays?.forEach((day: any) => days.push({ date: day.date, count: day.contributionCount }));
+        });
+        c.commitContributionsByRepository?.forEach((repo: any) => {
+          repo.contributions?.nodes?.forEach((n: any) => events.push({ type: 'commits', occurredAt: n.occurredAt, count: n.commitCount }));
+        });
+        c.pullRequestContributions?.nodes?.forEach((n: any) => events.push({ type: 'pullRequests', occurredAt: n.occurredAt, count: 1 }));
+        c.issueContributions?.nodes?.forEach((n: any) => events.push({ type: 'issues', occurredAt: n.occurredAt, count: 1 }));
+      });
+
+      return { days, events, breakdown };
+    } catch (error) {
+      // Keep rate-limit errors intact so callers can report the reset time
+      if (error instanceof RateLimitError) throw error;
+      console.error('Contribution calendar unavailable, using commit history:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Flatten nested GraphQL tree entries into root-relative paths
+   */
+  private static flattenTree(entries: any[] | undefined, prefix = ''): TreeEntry[] {
+    return (entries || []).flatMap((entry: any) => {
+      const path = `${prefix}${entry.name}`;
+      const isDir = entry.type === 'tree';
+      return [
+        { path, type: isDir ? 'dir' : 'file' } as TreeEntry,
+        ...(isDir ? this.flattenTree(entry.object?.entries, `${path}/`) : []),
+      ];
+    });
+  }
+
   /**
    * Transform GraphQL repo to Repository interface
    */
   private static transformRepo(repo: any): Repository {
-    // Get README content (try different locations)
-    const readmeContent = repo.readme?.text || repo.readmeLower?.text;
-    const readmeLength = readmeContent?.length || 0;
-    const has_readme = !!readmeContent;
-
-    // Detect code quality indicators
-    const code_quality = {
-      hasCI: !!repo.githubWorkflows?.entries?.length,
-      hasTests: !!(repo.testsDir || repo.testDir || repo.__testsDir || repo.specDir),
-      hasTypeScript: !!repo.tsconfig,
-      hasLinting: !!(repo.eslintrc || repo.eslintJson || repo.prettierrc),
-    };
+    // Resolve the README GitHub would render (first probed path that exists);
+    // casings that were not probed (e.g. "ReadMe.md") still show up in the root listing
+    const readmeIndex = README_PATHS.findIndex((_, i) => !!repo[`readme${i}`]);
+    const readmeBlob = readmeIndex !== -1 ? repo[`readme${readmeIndex}`] : null;
+    // Non-candidate repos only carry the listing: root entries and nested probes,
+    // where .github/ takes precedence over the root and the root over docs/
+    const probeIndex = NESTED_README_PATHS.findIndex((_, i) => !!repo[`readmeProbe${i}`]);
+    const probed = probeIndex !== -1
+      ? { name: NESTED_README_PATHS[probeIndex], size: repo[`readmeProbe${probeIndex}`].byteSize as number }
+      : null;
+    const rootEntry = repo.rootEntries?.entries?.find((e: any) => e.type === 'blob' && isReadmeName(e.name));
+    const listed = probed?.name.startsWith('.github/') || !rootEntry
+      ? probed
+      : { name: rootEntry.name as string, size: rootEntry.size as number };
+    const readme_file: string | undefined = readmeIndex !== -1
+      ? README_PATHS[readmeIndex]
+      : repo.rootTree?.entries?.find((e: any) => e.type === 'blob' && isReadmeName(e.name))?.name
+        ?? listed?.name;
+    const readme_format = readme_file ? readmeFormat(readme_file) : undefined;
+    const readmeContent = readme_format && typeof readmeBlob?.text === 'string'
+      ? toMarkdown(readmeBlob.text, readme_format)
+      : undefined;
+    const readmeLength = readmeContent?.length || readmeBlob?.byteSize || listed?.size || 0;
+    const has_readme = !!readme_file;
+
+    // Code quality and role signals - only detail candidates carry the file tree
+    const inspected = repo.rootTree !== undefined;
+    const tree = this.flattenTree(repo.rootTree?.entries);
+    const code_quality = inspected ? detectCodeQuality(tree) : undefined;
+    const manifests: Partial<Record<ManifestFile, string>> = {};
+    MANIFEST_FILES.forEach((file, i) => {
+      const text = repo[`manifest${i}`]?.text;
+      if (typeof text === 'string') manifests[file] = text;
+    });
+    const tech_stack = inspected ? detectTechStack(manifests) : undefined;
+    const signals = inspected
+      ? detectRepoSignals(
+          tree.filter(e => !e.path.includes('/')).map(e => ({ name: e.path, type: e.type })),
+          manifests['package.json'] || null,
+          repo.primaryLanguage?.name || null
+        )
+      : undefined;
 
     // Extract authored commit count (from our smart filtering)
     const authored_commit_count = repo.defaultBranchRef?.target?.authoredBy?.totalCount || 0;
 
+    // Recent commit dates - detail candidates only
+    const commit_dates = repo.defaultBranchRef?.target?.history?.nodes?.map((c: any) => c.committedDate as string);
+
     return {
       name: repo.name,
       description: repo.description,
       stars: repo.stargazerCount || 0,
       forks: repo.forkCount || 0,
       language: repo.primaryLanguage?.name || null,
+      languages: repo.languages?.edges?.map((e: any) => ({
+        name: e.node.name as string,
+        bytes: e.size as number,
+        color: (e.node.color as string | null) || null,
+      })),
       topics: repo.repositoryTopics?.nodes?.map((t: any) => t.topic.name) || [],
       updated_at: repo.updatedAt,
       created_at: repo.createdAt,
-      size: 0, // Not available in GraphQL, but not critical
+      size: repo.diskUsage || 0, // KB, like the REST size
       has_readme,
       readme_content: readmeContent,
       readme_length: readmeLength,
+      readme_file,
+      readme_format,
       is_fork: repo.isFork || false,
       authored_commit_count, // NEW: Real contribution tracking
       open_issues: repo.issues?.totalCount || 0,
       homepage: repo.homepageUrl,
       code_quality,
+      tech_stack,
+      signals,
+      commit_dates,
     };
   }
 
   /**
    * Calculate activity metrics from repositories (raw GraphQL data)
+   * Fallback only: default-branch history counts commits by anyone.
    */
-  private static calculateActivityData(repositories: any[]) {
+  private static calculateActivityData(repositories: any[], timeZone: string) {
     try {
       let totalCommits = 0;
       let lastCommitDate: string | null = null;
-      const commitDates: Date[] = [];
+      const commitDates: string[] = [];
 
       repositories.forEach((repo: any) => {
         const history = repo.defaultBranchRef?.target?.history;
@@ -418,10 +698,9 @@ export class GraphQLGitHubService {
           totalCommits += history.totalCount || 0;
           
           history.nodes?.forEach((commit: any) => {
-            const date = new Date(commit.committedDate);
-            commitDates.push(date);
+            commitDates.push(commit.committedDate);
             
-            if (!lastCommitDate || date > new Date(lastCommitDate)) {
+            if (!lastCommitDate || new Date(commit.committedDate) > new Date(lastCommitDate)) {
               lastCommitDate = commit.committedDate;
             }
           });
@@ -432,74 +711,17 @@ export class GraphQLGitHubService {
       const sixMonthsAgo = new Date();
       sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
       
-      const recentCommits = commitDates.filter(d => d >= sixMonthsAgo);
+      const recentCommits = commitDates.filter(d => new Date(d) >= sixMonthsAgo);
       const commitFrequency = recentCommits.length > 0 ? (recentCommits.length / 6) : 0;
-      
-      const uniqueDays = new Set(commitDates.map(d => d.toDateString()));
-      const activeDays = uniqueDays.size;
 
-      // Calculate Streaks
-      const sortedDates = Array.from(uniqueDays)
-        .map(d => new Date(d))
-        .sort((a, b) => b.getTime() - a.getTime());
-      
-      let currentStreak = 0;
-      let longestStreak = 0;
-      let tempStreak = 0;
-      
-      // Check current streak
-      const today = new Date();
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      if (sortedDates.length > 0) {
-        const lastCommit = sortedDates[0];
-        const isRecent = 
-          lastCommit.toDateString() === today.toDateString() || 
-          lastCommit.toDateString() === yesterday.toDateString();
-          
-        if (isRecent) {
-          currentStreak = 1;
-          for (let i = 0; i < sortedDates.length - 1; i++) {
-            const curr = sortedDates[i];
-            const next = sortedDates[i + 1];
-            const diffTime = Math.abs(curr.getTime() - next.getTime());
-            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-            
-            if (diffDays === 1) {
-              currentStreak++;
-            } else {
-              break;
-            }
-          }
-        }
-      }
-
-      // Check longest streak
-      if (sortedDates.length > 0) {
-        tempStreak = 1;
-        longestStreak = 1;
-        for (let i = 0; i < sortedDates.length - 1; i++) {
-          const curr = sortedDates[i];
-          const next = sortedDates[i + 1];
-          const diffDays = Math.ceil(Math.abs(curr.getTime() - next.getTime()) / (1000 * 60 * 60 * 24));
-          
-          if (diffDays === 1) {
-            tempStreak++;
-          } else {
-            tempStreak = 1;
-          }
-          longestStreak = Math.max(longestStreak, tempStreak);
-        }
-      }
+      // Active days, streaks, heatmap and monthly commits, bucketed in the user's timezone
+      const days = activityFromCommits(commitDates, { timeZone });
 
       return {
         totalCommits,
         lastCommitDate,
         commitFrequency,
-        activeDays,
-        currentStreak,
-        longestStreak,
+        ...days,
         totalContributions: totalCommits, 
       };
     } catch (error) {
@@ -543,19 +765,4 @@ export class GraphQLGitHubService {
     
     return results.filter((slug): slug is string => slug !== null);
   }
-
-  /**
-   * Calculate language statistics
-   */
-  private static calculateLanguageStats(repositories: Repository[]): Record<string, number> {
-    const stats: Record<string, number> = {};
-    
-    repositories.forEach(repo => {
-      if (repo.language && !repo.is_fork) {
-        stats[repo.language] = (stats[repo.language] || 0) + 1;
-      }
-    });
-
-    return stats;
-  }
 }
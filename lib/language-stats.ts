@@ -0,0 +1,76 @@
+/**
+ * Language Stats - Byte-Weighted Language Breakdown
+ *
+ * A repo's primary language hides everything else in it (a repo that is 45%
+ * TypeScript and 40% Python would only credit TypeScript), so both GitHub
+ * services record each repo's per-language byte sizes and the breakdown is
+ * aggregated from those. Only original work counts: non-fork repos and forks
+ * the user committed to.
+ */
+
+export interface RepoLanguage {
+  name: string;
+  bytes: number;
+  color: string | null;      // GitHub linguist color (GraphQL only)
+}
+
+export interface LanguageStat {
+  bytes: number;             // Bytes across original repos
+  repos: number;             // Original repos containing the language
+  color: string | null;
+}
+
+// Languages requested per repo (largest first)
+export const LANGUAGES_PER_REPO = 10;
+
+interface LanguageSource {
+  language: string | null;
+  languages?: RepoLanguage[];
+  is_fork: boolean;
+  authored_commit_count?: number;
+}
+
+/**
+ * Aggregate per-repo languages into stats ordered by bytes (then repo count).
+ * Repos without a byte breakdown still count toward their primary language.
+ */
+export const aggregateLanguageStats = (repositories: LanguageSource[]): Record<string, LanguageStat> => {
+  const stats = new Map<string, LanguageStat>();
+  const stat = (name: string) => {
+    const existing = stats.get(name) || { bytes: 0, repos: 0, color: null };
+    stats.set(name, existing);
+    return existing;
+  };
+
+  repositories
+    .filter(repo => !repo.is_fork || (repo.authored_commit_count || 0) > 0)
+    .forEach(repo => {
+      if (repo.languages?.length) {
+        repo.languages.forEach(language => {
+          const entry = stat(language.name);
+          entry.bytes += language.bytes;
+          entry.repos += 1;
+          entry.color = entry.color || language.color;
+        });
+      } else if (repo.language) {
+        stat(repo.language).repos += 1;
+      }
+    });
+
+  return Object.fromEntries(
+    Array.from(stats.entries()).sort(([, a], [, b]) => b.bytes - a.bytes || b.repos - a.repos)
+  );
+};
+
+/**
+ * Share of total bytes per language, in percent (repo counts when no bytes are known)
+ */
+export const languageShares = (stats: Record<string, LanguageStat>): { name: string; percent: number }[] => {
+  const entries = Object.entries(stats);
+  const totalBytes = entries.reduce((sum, [, s]) => sum + s.bytes, 0);
+  const totalRepos = entries.reduce((sum, [, s]) => sum + s.repos, 0);
+  return entries.map(([name, s]) => ({
+    name,
+    percent: totalBytes > 0 ? (s.bytes / totalBytes) * 100 : totalRepos > 0 ? (s.repos / totalRepos) * 100 : 0,
+  }));
+};
@@ -0,0 +1,178 @@
+/**
+ * LLM Providers - Pluggable Backends for AI Insights
+ *
+ * Every backend implements the same small `LLMProvider` interface so the
+ * analyzer can walk an ordered fallback chain instead of hard-wiring SDKs.
+ *
+ * Built-in providers:
+ * - gemini:            Google Generative AI SDK (GEMINI_API_KEY, GEMINI_MODEL)
+ * - cerebras:          Cerebras chat completions (CEREBRAS_API_KEY, CEREBRAS_MODEL)
+ * - openai-compatible: Any OpenAI-style `/chat/completions` endpoint, e.g. a
+ *                      local Ollama or llama.cpp server (OPENAI_COMPAT_BASE_URL,
+ *                      OPENAI_COMPAT_MODEL, optional OPENAI_COMPAT_API_KEY)
+ * - fixture:           Deterministic canned response for tests and offline demos
+ *                      (optional LLM_FIXTURE_PATH pointing at a JSON file)
+ *
+ * Selection: LLM_PROVIDERS is a comma-separated, ordered chain
+ * (default "cerebras,gemini"). Providers that are not configured are skipped.
+ */
+
+import { readFileSync } from 'fs';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+export interface LLMProvider {
+  id: string;        // Provider id used in LLM_PROVIDERS
+  model: string;     // Concrete model id sent to the backend
+  isConfigured(): boolean;
+  generate(prompt: string): Promise<string>;
+}
+
+/**
+ * "provider/model" label reported as `modelUsed`
+ */
+export const describeProvider = (provider: LLMProvider): string => `${provider.id}/${provider.model}`;
+
+/**
+ * Google Gemini / Gemma via the official SDK
+ */
+export class GeminiProvider implements LLMProvider {
+  id = 'gemini';
+  model = process.env.GEMINI_MODEL || 'gemma-3-27b-it';
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+    const result = await genAI.getGenerativeModel({ model: this.model }).generateContent(prompt);
+    return result.response.text();
+  }
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (Ollama, llama.cpp, vLLM, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  id = 'openai-compatible';
+
+  constructor(
+    public model = process.env.OPENAI_COMPAT_MODEL || 'llama3.1',
+    protected baseUrl = process.env.OPENAI_COMPAT_BASE_URL || '',
+    protected apiKey = process.env.OPENAI_COMPAT_API_KEY || ''
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.7,
+        max_tokens: 4000,
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.id} API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '{}';
+  }
+}
+
+/**
+ * Cerebras (hosted Llama) - an OpenAI-compatible endpoint with its own key
+ */
+export class CerebrasProvider extends OpenAICompatibleProvider {
+  id = 'cerebras';
+
+  constructor() {
+    super(
+      process.env.CEREBRAS_MODEL || 'llama-3.3-70b',
+      'https://api.cerebras.ai/v1',
+      process.env.CEREBRAS_API_KEY || ''
+    );
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+}
+
+/**
+ * Deterministic provider for tests - always returns the same insights JSON
+ */
+export class FixtureProvider implements LLMProvider {
+  id = 'fixture';
+  model = process.env.LLM_FIXTURE_PATH ? 'file' : 'builtin';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(): Promise<string> {
+    if (process.env.LLM_FIXTURE_PATH) {
+      return readFileSync(process.env.LLM_FIXTURE_PATH, 'utf-8');
+    }
+
+    return JSON.stringify({
+      profileTag: 'Fixture Enthusiast',
+      profileSummary: 'Deterministic fixture response. No model was called.',
+      recruiterPerspective: 'This insight was produced by the fixture provider for testing purposes.',
+      quickWins: ['Pin your best repositories', 'Add a profile bio', 'Add a README to every pinned repo'],
+      projectIdeas: [
+        {
+          title: 'Fixture Project',
+          description: 'A placeholder project idea returned by the fixture provider.',
+          techStack: ['TypeScript'],
+        },
+      ],
+      suggestions: [
+        {
+          title: 'Add READMEs to pinned repositories',
+          description: 'Recruiters skip repositories without documentation.',
+          priority: 'high',
+          effort: 'low',
+          impact: 'high',
+          timeEstimate: '30 minutes',
+        },
+      ],
+    });
+  }
+}
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  'gemini': () => new GeminiProvider(),
+  'cerebras': () => new CerebrasProvider(),
+  'openai-compatible': () => new OpenAICompatibleProvider(),
+  'fixture': () => new FixtureProvider(),
+};
+
+/**
+ * Ordered, configured providers from LLM_PROVIDERS
+ */
+export const getProviderChain = (): LLMProvider[] => {
+  const ids = (process.env.LLM_PROVIDERS || 'cerebras,gemini')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => id.length > 0);
+
+  return ids
+    .map(id => {
+      const factory = PROVIDER_FACTORIES[id];
+      if (!factory) console.warn(`Unknown LLM provider "${id}" in LLM_PROVIDERS, skipping`);
+      return factory?.();
+    })
+    .filter((provider): provider is LLMProvider => !!provider && provider.isConfigured());
+};
@@ -6,9 +6,33 @@
  * - Dynamic weight adjustment per profile type
  * - 6 balanced dimensions
  * - 100% actionable feedback
+ * - Explicit red flag detection with score penalties
+ * - Legend handling so infrastructure-level developers are never penalized
+ * - Role tracks (frontend, backend, data/ML, mobile, DevOps): scored for every
+ *   role, with an optional target role replacing the profile-type weights
+ * - Per-repository scorecards for every analyzed repo (see repo-scorecard.ts)
+ *
+ * Weights, thresholds, keyword lists and suggestion templates come from the
+ * declarative rubric (see scoring-rubric.ts); this class computes the metrics
+ * the rubric refers to and evaluates its rules.
  */
 
 import { GitHubAnalysisData, Repository } from './github-service';
+import { RepoSignal } from './repo-signals';
+import { RepoScorecard, scoreRepository } from './repo-scorecard';
+import { ReadmeAnalysis, analyzeReadme } from './readme-analyzer';
+import { TechCategory, TechStackSummary, summarizeTechStack } from './tech-stack';
+import {
+  getScoringRubric,
+  ScoringRubric,
+  RubricDimension,
+  RubricRole,
+  RubricRule,
+  RubricCondition,
+  RubricOperator,
+  RubricMetric,
+  RubricMetrics,
+} from './scoring-rubric';
 
 export type ProfileType = 'student' | 'professional' | 'open-source';
 
@@ -19,6 +43,20 @@ export interface ScoreDimension {
   feedback: string;
   whyItMatters: string;
   suggestions: DetailedSuggestion[];
+  ledger: ScoreLedgerEntry[];     // How the score was calculated, rule by rule
+}
+
+/**
+ * One line of a dimension's explanation trace
+ */
+export interface ScoreLedgerEntry {
+  ruleId: string;                               // Rubric rule id ("base" / "legend-override" for adjustments)
+  type: RubricRule['type'] | 'base' | 'legend';
+  inputs: Record<string, number | string>;      // Metric values the rule read
+  detail: string;                               // e.g. "demoCount 2 × 7 (max 35)"
+  points: number;                               // Points awarded (after dimension scale)
+  possible: number;                             // Maximum this rule could award
+  repos: string[];                              // Repos that contributed to the metric
 }
 
 export interface DetailedSuggestion {
@@ -29,64 +67,252 @@ export interface DetailedSuggestion {
   difficulty: 'easy' | 'medium' | 'hard';
   timeEstimate: string;
   priority: 'critical' | 'high' | 'medium' | 'low';
+  check: SuggestionCheck;    // How to verify the suggestion was done
+}
+
+/**
+ * Machine-checkable condition behind a suggestion: it is done once `when`
+ * (the rubric condition that raised it) no longer holds
+ */
+export interface SuggestionCheck {
+  when: RubricCondition;
+  scope: 'repos' | 'profile';      // profile: activity/community data a repo re-fetch cannot update
+  repos: string[];                 // Repos to re-fetch: the ones to fix, else every scored repo
+  value: number | string | null;   // Metric value when the suggestion was made
+}
+
+/**
+ * Outcome of re-checking one suggestion
+ */
+export interface SuggestionVerification {
+  id: string;
+  title: string;
+  status: 'done' | 'failing' | 'unverifiable';
+  before: number | string | null;  // Metric value when suggested
+  after: number | string | null;   // Metric value after the re-fetch (null when unverifiable)
+  remaining: string[];             // Repos still failing a per-repo condition
+  points: number;                  // Projected points awarded (done only)
+}
+
+export interface RedFlag {
+  title: string;
+  description: string;
+  severity: 'high' | 'medium' | 'low';
+}
+
+export interface LegendStatus {
+  isLegend: boolean;
+  reason: string;
 }
 
 export interface PortfolioScore {
-  totalScore: number;
+  totalScore: number;        // Weighted total after red flag penalty / legend floor
   profileType: ProfileType;
   dimensions: ScoreDimension[];
+  redFlags: RedFlag[];
+  penalty: number;           // Points subtracted for red flags (0 for legends)
+  legendStatus: LegendStatus;
   topRepos: Repository[];
   strengths: string[];
   topSuggestions: DetailedSuggestion[];
+  rubricVersion: string;     // Rubric the score was computed with
+  role: string | null;       // Target role whose weights produced totalScore (?role=)
+  suggestedRole: string | null; // Best-fit role from languages, topics and signals
+  roleScores: RoleScore[];   // Score under every role track
+  repoScorecards: RepoScorecard[]; // One card per analyzed repo, best first
+  techStack: TechStackSummary;   // Frameworks, test runners, ORMs and cloud SDKs across real projects
+}
+
+/**
+ * Score and fit of one role track
+ */
+export interface RoleScore {
+  role: string;
+  name: string;
+  score: number;             // Total score using this role's weights and fit dimension
+  fit: number;               // 0-100: how well repos match the role's languages/topics/signals
+  fitDimension: ScoreDimension;
+}
+
+/**
+ * Metric values plus the repos behind each one
+ */
+interface MetricSnapshot {
+  values: RubricMetrics;
+  repos: Partial<Record<RubricMetric, string[]>>;
+  scored: string[];          // Repos the per-repo metrics were computed over
 }
 
+// Metrics from activity and community data rather than the scored repos
+const PROFILE_METRICS: RubricMetric[] = ['commitFrequency', 'daysSinceLastCommit', 'hasIssues', 'totalStars'];
+
+const OPERATOR_SYMBOLS: Record<RubricOperator, string> = {
+  lt: '<', lte: '≤', gt: '>', gte: '≥', eq: '=', neq: '≠',
+};
+
 export class NewScoringEngine {
   /**
    * Main scoring entry point
+   * `profile` forces one ProfileType's weights (comparisons score everyone alike)
    */
-  static calculateScore(data: GitHubAnalysisData): PortfolioScore {
-    // Step 1: Detect profile type
-    const profileType = this.detectProfileType(data);
+  static calculateScore(
+    data: GitHubAnalysisData,
+    role: string | null = null,
+    profile: ProfileType | null = null
+  ): PortfolioScore {
+    const rubric = getScoringRubric();
+    const targetRole = role ? rubric.roles.find(r => r.id === role) : undefined;
+    if (role && !targetRole) {
+      throw new Error(`Unknown role "${role}"`);
+    }
+    
+    // Step 1: Detect profile type (unless one was forced) and legend status
+    const profileType = profile || this.detectProfileType(data);
+    const legendStatus = this.detectLegendStatus(data);
     
     // Step 2: Get weights for this profile type
-    const weights = this.getWeights(profileType);
+    const weights = rubric.profiles[profileType];
     
-    // Step 3: Select top 6 repos for scoring
+    // Step 3: Select top 6 repos for scoring and compute rubric metrics
     const scoredRepos = this.selectReposForScoring(data);
+    const snapshot = this.computeMetrics(data, scoredRepos, rubric);
     
     // Step 4: Calculate dimension scores
-    const dimensions: ScoreDimension[] = [
-      this.scoreCodeQuality(data, scoredRepos, weights.codeQuality),
-      this.scoreProjectImpact(data, scoredRepos, weights.projectImpact),
-      this.scoreCurrentActive(data, weights.currentActive),
-      this.scoreProductionReadiness(data, scoredRepos, weights.productionReadiness),
-      this.scoreTechnicalSkill(data, scoredRepos, weights.technicalSkill),
-      this.scoreCommunityTrust(data, weights.communityTrust),
-    ];
-    
-    // Step 5: Calculate weighted total
-    const totalScore = Math.round(
-      dimensions.reduce((sum, dim) => sum + (dim.score * dim.weight) / 100, 0)
+    const baseDimensions: ScoreDimension[] = rubric.dimensions.map(dimension =>
+      this.scoreDimension(dimension, snapshot, weights[dimension.id], legendStatus)
     );
     
-    // Step 6: Select top repos and identify strengths
+    // Step 5: Detect red flags and penalties
+    // Legends are not penalized (their red flags are usually infrastructure repos)
     const topRepos = this.selectTopRepos(data);
+    const redFlags = this.detectRedFlags(data, topRepos);
+    const penalty = legendStatus.isLegend
+      ? 0
+      : redFlags.reduce((sum, flag) => sum + rubric.redFlagPenalties[flag.severity], 0);
+    
+    const finalScore = (dims: ScoreDimension[]): number => {
+      const weightedScore = Math.round(dims.reduce((sum, dim) => sum + (dim.score * dim.weight) / 100, 0));
+      const score = Math.max(0, weightedScore - penalty);
+      return legendStatus.isLegend ? Math.max(score, rubric.legendScoreFloor) : score;
+    };
+    
+    // Step 6: Score every role track (base dimensions re-weighted + the role's fit dimension)
+    const roleDimensions = new Map<string, ScoreDimension[]>();
+    const roleScores: RoleScore[] = rubric.roles.map(r => {
+      const fitDimension = this.scoreDimension(r.dimension, snapshot, r.weights[r.dimension.id], legendStatus);
+      const dims = [
+        ...baseDimensions.map((dim, i) => ({ ...dim, weight: r.weights[rubric.dimensions[i].id] })),
+        fitDimension,
+      ];
+      roleDimensions.set(r.id, dims);
+      return { role: r.id, name: r.name, score: finalScore(dims), fit: this.roleFit(data, r), fitDimension };
+    });
+    const bestFit = roleScores.reduce<RoleScore | null>((best, r) => (r.fit > (best?.fit ?? 0) ? r : best), null);
+    
+    // Step 7: Use the target role's weights when one was requested
+    const dimensions = targetRole ? roleDimensions.get(targetRole.id) as ScoreDimension[] : baseDimensions;
+    const totalScore = finalScore(dimensions);
+    
+    // Step 8: Identify strengths
     const strengths = this.identifyStrengths(dimensions);
     
-    // Step 7: Collect and prioritize suggestions
+    // Step 9: Collect and prioritize suggestions
     const allSuggestions = dimensions.flatMap(d => d.suggestions);
     const topSuggestions = this.prioritizeSuggestions(allSuggestions).slice(0, 5);
     
+    // Step 10: Score every repository on its own
+    const repoScorecards = data.repositories
+      .map(repo => scoreRepository(repo, rubric))
+      .sort((a, b) => b.score - a.score);
+    
+    // Step 11: Portfolio tech stack from every real project's dependency manifests
+    const techStack = summarizeTechStack(data.repositories.filter(r => this.isRealProject(r)));
+    
     return {
       totalScore,
       profileType,
       dimensions,
+      redFlags,
+      penalty,
+      legendStatus,
       topRepos,
       strengths,
       topSuggestions,
+      rubricVersion: rubric.version,
+      role: targetRole?.id || null,
+      suggestedRole: bestFit?.role || null,
+      roleScores,
+      repoScorecards,
+      techStack,
     };
   }
   
+  /**
+   * Re-evaluate suggestions against (partly re-fetched) data: a suggestion is
+   * done once its condition no longer holds. Profile-level conditions cannot
+   * be settled by re-fetching repos and are reported as unverifiable.
+   */
+  static verifySuggestions(data: GitHubAnalysisData, suggestions: DetailedSuggestion[]): SuggestionVerification[] {
+    const snapshot = this.computeMetrics(data, this.selectReposForScoring(data), getScoringRubric());
+    
+    return suggestions.map(({ id, title, points, check }) => {
+      const metric = check.when.metric;
+      if (check.scope === 'profile' || metric === 'score') {
+        return { id, title, status: 'unverifiable', before: check.value, after: null, remaining: [], points: 0 };
+      }
+      const done = !this.matches(check.when, snapshot.values);
+      const countsProblems = check.when.op === 'gt' || check.when.op === 'gte';
+      return {
+        id,
+        title,
+        status: done ? 'done' : 'failing',
+        before: check.value,
+        after: snapshot.values[metric] ?? null,
+        remaining: !done && countsProblems ? snapshot.repos[metric] || [] : [],
+        points: done ? points : 0,
+      };
+    });
+  }
+  
+  /**
+   * Check for a suggestion raised by `when`. Counts that must drop (e.g.
+   * missingReadmeCount > 0) target the repos behind the metric; anything
+   * else can be fixed in any scored repo.
+   */
+  private static suggestionCheck(when: RubricCondition, snapshot: MetricSnapshot): SuggestionCheck {
+    const metric = when.metric;
+    if (metric === 'score' || PROFILE_METRICS.includes(metric)) {
+      return { when, scope: 'profile', repos: [], value: metric === 'score' ? null : snapshot.values[metric] ?? null };
+    }
+    const behind = snapshot.repos[metric] || [];
+    const countsProblems = when.op === 'gt' || when.op === 'gte';
+    return {
+      when,
+      scope: 'repos',
+      repos: countsProblems && behind.length > 0 ? behind : snapshot.scored,
+      value: snapshot.values[metric] ?? null,
+    };
+  }
+  
+  /**
+   * How well a profile matches a role (0-100): each real repo earns a point
+   * for a matching language, a matching topic and any matching signal
+   */
+  private static roleFit(data: GitHubAnalysisData, role: RubricRole): number {
+    const realRepos = data.repositories.filter(r => this.isRealProject(r));
+    if (realRepos.length === 0) return 0;
+    
+    const topics = role.match.topics.map(t => t.toLowerCase());
+    const hits = realRepos.reduce((sum, r) => {
+      const language = r.language && role.match.languages.includes(r.language) ? 1 : 0;
+      const topic = r.topics.some(t => topics.includes(t.toLowerCase())) ? 1 : 0;
+      const signal = role.match.signals.some(signal => r.signals?.[signal]) ? 1 : 0;
+      return sum + language + topic + signal;
+    }, 0);
+    
+    return Math.round((hits / (realRepos.length * 3)) * 100);
+  }
+  
   /**
    * Detect profile type based on account characteristics
    */
@@ -109,47 +335,6 @@ export class NewScoringEngine {
     return 'professional';
   }
   
-  /**
-   * Get scoring weights based on profile type
-   */
-  private static getWeights(profileType: ProfileType): {
-    codeQuality: number;
-    projectImpact: number;
-    currentActive: number;
-    productionReadiness: number;
-    technicalSkill: number;
-    communityTrust: number;
-  } {
-    const weights = {
-      student: {
-        codeQuality: 20,
-        projectImpact: 25,       // Highest for students
-        currentActive: 20,
-        productionReadiness: 10,  // Lower for students
-        technicalSkill: 15,
-        communityTrust: 10,
-      },
-      professional: {
-        codeQuality: 18,
-        projectImpact: 15,
-        currentActive: 17,
-        productionReadiness: 25,  // Highest for professionals
-        technicalSkill: 15,
-        communityTrust: 10,
-      },
-      'open-source': {
-        codeQuality: 20,
-        projectImpact: 15,
-        currentActive: 15,
-        productionReadiness: 20,
-        technicalSkill: 15,
-        communityTrust: 15,       // Higher for OSS
-      },
-    };
-    
-    return weights[profileType] || weights.professional;
-  }
-
   /**
    * Helper: Check if a repo is a real project (not a zero-contribution fork)
    */
@@ -162,7 +347,7 @@ export class NewScoringEngine {
   /**
    * Select top 6 repos for scoring (pinned first, then recent)
    */
-  private static selectReposForScoring(data: GitHubAnalysisData): Repository[] {
+  static selectReposForScoring(data: GitHubAnalysisData): Repository[] {
     const { repositories, pinnedRepos } = data;
     
     // Start with pinned repos
@@ -178,396 +363,448 @@ export class NewScoringEngine {
   }
   
   /**
-   * Dimension 1: Code Quality (weight varies by profile)
+   * Compute every metric the rubric rules can reference, along with the
+   * repos behind each one (used by the explanation ledger)
    */
-  private static scoreCodeQuality(
+  private static computeMetrics(
     data: GitHubAnalysisData,
     scoredRepos: Repository[],
-    weight: number
-  ): ScoreDimension {
-    let score = 0;
-    const suggestions: DetailedSuggestion[] = [];
-    
-    // README quality (50 points)
-    const reposWithReadme = scoredRepos.filter(r => r.has_readme && this.isRealProject(r));
-    const readmeScore = (reposWithReadme.length / Math.max(scoredRepos.length, 1)) * 50;
-    score += readmeScore;
-    
-    if (reposWithReadme.length < scoredRepos.length) {
-      suggestions.push({
-        id: 'add-readme',
-        title: `Add READMEs to ${scoredRepos.length - reposWithReadme.length} repos`,
-        points: Math.round((scoredRepos.length - reposWithReadme.length) * 8),
-        category: 'Code Professionalism', // Renamed from Code Quality
-        difficulty: 'easy',
-        timeEstimate: '15 min per repo',
-        priority: 'critical',
-      });
-    }
+    rubric: ScoringRubric
+  ): MetricSnapshot {
+    const { lists, params } = rubric;
+    const scoredCount = Math.max(scoredRepos.length, 1);
+    const names = (repos: Repository[]) => repos.map(r => r.name);
+    
+    // README analysis - only repos whose README text was fetched
+    const readmes = new Map<Repository, ReadmeAnalysis>();
+    scoredRepos.forEach(r => {
+      if (r.readme_content) readmes.set(r, analyzeReadme(r.readme_content, lists));
+    });
+    const analyzedRepos = scoredRepos.filter(r => readmes.has(r) && this.isRealProject(r));
+    const readmePasses = (r: Repository, test: (analysis: ReadmeAnalysis) => boolean) => {
+      const analysis = readmes.get(r);
+      return !!analysis && !analysis.boilerplate && test(analysis);
+    };
     
-    // Code organization (30 points)
+    // Code professionalism
+    const readmeRepos = scoredRepos.filter(r => r.has_readme && this.isRealProject(r));
     const organizedRepos = scoredRepos.filter(r => r.description && r.topics.length > 0 && this.isRealProject(r));
-    score += (organizedRepos.length / Math.max(scoredRepos.length, 1)) * 30;
-    
-    if (organizedRepos.length < scoredRepos.length) {
-      suggestions.push({
-        id: 'add-descriptions',
-        title: 'Add descriptions and topics to repos',
-        points: 5,
-        category: 'Code Professionalism',
-        difficulty: 'easy',
-        timeEstimate: '5 min',
-        priority: 'high',
-      });
-    }
+    const lintingRepos = scoredRepos.filter(r => r.code_quality?.hasLinting && this.isRealProject(r));
+    const boilerplateRepos = analyzedRepos.filter(r => readmes.get(r)?.boilerplate);
+    const missingSetupRepos = analyzedRepos.filter(r => readmePasses(r, a => !a.checks.installation || !a.checks.usage));
+    const readmeQuality = analyzedRepos.reduce((sum, r) => sum + (readmes.get(r)?.score || 0), 0);
+    
+    // Project impact
+    const demoRepos = scoredRepos.filter(r =>
+      this.isRealProject(r) && (readmes.get(r)?.checks.demoLink || !!r.homepage)
+    );
+    const storyRepos = scoredRepos.filter(r => this.isRealProject(r) && readmePasses(r, a => a.checks.description));
+    const screenshotRepos = analyzedRepos.filter(r => readmePasses(r, a => a.checks.screenshots));
+    const completeRepos = scoredRepos.filter(r =>
+      r.description && readmePasses(r, a => a.score >= params.completeReadmeScore)
+    );
     
-    // Linting/formatting (20 points)
-    const reposWithLinting = scoredRepos.filter(r => r.code_quality?.hasLinting && this.isRealProject(r));
-    score += (reposWithLinting.length / Math.max(scoredRepos.length, 1)) * 20;
-    
-    if (reposWithLinting.length === 0) {
-      suggestions.push({
-        id: 'add-linting',
-        title: 'Add ESLint or Prettier configuration',
-        points: 6,
-        category: 'Code Professionalism',
-        difficulty: 'easy',
-        timeEstimate: '10 min',
-        priority: 'medium',
-      });
-    }
+    // Production readiness
+    const ciRepos = scoredRepos.filter(r => r.code_quality?.hasCI);
+    const testRepos = scoredRepos.filter(r => r.code_quality?.hasTests);
+    
+    // Technical skill - zero-contribution forks don't count toward languages
+    const languageRepos = scoredRepos.filter(r => this.isRealProject(r) && !!r.language);
+    const topLanguages = Array.from(new Set(languageRepos.map(r => r.language as string)));
+    const modernRepos = languageRepos.filter(r => lists.modernLanguages.includes(r.language as string));
+    const frameworkTopics = lists.frameworkTopics.map(t => t.toLowerCase());
+    const withTech = (category: TechCategory) => scoredRepos.filter(r =>
+      this.isRealProject(r) && !!r.tech_stack?.items.some(item => item.category === category)
+    );
+    // Frameworks come from dependency manifests, with topics as a fallback for uninspected repos
+    const frameworkRepos = scoredRepos.filter(r =>
+      r.topics.some(t => frameworkTopics.includes(t.toLowerCase())) || withTech('framework').includes(r)
+    );
+    const techStack = summarizeTechStack(scoredRepos.filter(r => this.isRealProject(r)));
+    const testRunnerRepos = withTech('testRunner');
+    const ormRepos = withTech('orm');
+    const cloudSdkRepos = withTech('cloudSdk');
+    
+    // Role-track signals (only real projects count)
+    const withSignal = (signal: RepoSignal) => scoredRepos.filter(r => this.isRealProject(r) && r.signals?.[signal]);
+    const dockerRepos = withSignal('hasDocker');
+    const terraformRepos = withSignal('hasTerraform');
+    const kubernetesRepos = withSignal('hasKubernetes');
+    const notebookRepos = withSignal('hasNotebooks');
+    const pythonPackageRepos = withSignal('hasPythonPackaging');
+    const datasetRepos = withSignal('hasDatasets');
+    const a11yRepos = withSignal('hasA11yTooling');
+    const mobileRepos = withSignal('hasMobileProject');
+    const apiSpecRepos = withSignal('hasApiSpec');
+    const migrationRepos = withSignal('hasMigrations');
+    const pythonRepos = languageRepos.filter(r => r.language === 'Python' || r.language === 'Jupyter Notebook');
+    
+    // Community (all repos, not just the scored ones)
+    const issueRepos = data.repositories.filter(r => r.open_issues > 0);
+    const starredRepos = data.repositories.filter(r => r.stars > 0);
+    
+    const values: RubricMetrics = {
+      scoredRepoCount: scoredRepos.length,
+      readmeCount: readmeRepos.length,
+      missingReadmeCount: scoredRepos.length - readmeRepos.length,
+      readmeRatio: readmeRepos.length / scoredCount,
+      readmeQualityRatio: analyzedRepos.length > 0 ? readmeQuality / analyzedRepos.length / 100 : 0,
+      boilerplateReadmeCount: boilerplateRepos.length,
+      missingSetupDocsCount: missingSetupRepos.length,
+      screenshotCount: screenshotRepos.length,
+      organizedCount: organizedRepos.length,
+      missingOrganizedCount: scoredRepos.length - organizedRepos.length,
+      organizedRatio: organizedRepos.length / scoredCount,
+      lintingCount: lintingRepos.length,
+      lintingRatio: lintingRepos.length / scoredCount,
+      demoCount: demoRepos.length,
+      storyCount: storyRepos.length,
+      storyRatio: storyRepos.length / scoredCount,
+      completeRatio: completeRepos.length / scoredCount,
+      commitFrequency: data.activityData.commitFrequency,
+      ciCount: ciRepos.length,
+      testsCount: testRepos.length,
+      languageCount: topLanguages.length,
+      hasModernLanguage: modernRepos.length > 0 ? 1 : 0,
+      frameworkRepoCount: frameworkRepos.length,
+      frameworkCount: techStack.byCategory.framework.length,
+      testRunnerRepoCount: testRunnerRepos.length,
+      ormRepoCount: ormRepos.length,
+      cloudSdkRepoCount: cloudSdkRepos.length,
+      hasIssues: issueRepos.length > 0 ? 1 : 0,
+      totalStars: data.repositories.reduce((sum, r) => sum + r.stars, 0),
+      topLanguages: topLanguages.slice(0, 3).join(', '),
+      primaryLanguage: topLanguages[0] || 'no detected language',
+      topFrameworks: techStack.byCategory.framework.slice(0, 3).join(', '),
+      dockerRepoCount: dockerRepos.length,
+      terraformRepoCount: terraformRepos.length,
+      kubernetesRepoCount: kubernetesRepos.length,
+      notebookRepoCount: notebookRepos.length,
+      pythonPackageRepoCount: pythonPackageRepos.length,
+      datasetRepoCount: datasetRepos.length,
+      pythonRepoCount: pythonRepos.length,
+      a11yRepoCount: a11yRepos.length,
+      mobileRepoCount: mobileRepos.length,
+      apiSpecRepoCount: apiSpecRepos.length,
+      migrationRepoCount: migrationRepos.length,
+    };
     
-    const feedback = reposWithReadme.length === scoredRepos.length
-      ? `Excellent documentation across all ${scoredRepos.length} top repos!`
-      : `${scoredRepos.length - reposWithReadme.length} repos need READMEs`;
+    // Only defined once there is at least one commit
+    if (data.activityData.lastCommitDate) {
+      values.daysSinceLastCommit = Math.floor(
+        (Date.now() - new Date(data.activityData.lastCommitDate).getTime()) / (1000 * 60 * 60 * 24)
+      );
+    }
     
-    return {
-      name: 'Code Professionalism', // User-facing rename
-      score: Math.round(score),
-      weight,
-      feedback,
-      whyItMatters: 'Recruiters skip repos without documentation. Clean code signals professionalism.',
-      suggestions,
+    const missingReadme = scoredRepos.filter(r => !readmeRepos.includes(r));
+    const repos: MetricSnapshot['repos'] = {
+      readmeCount: names(readmeRepos),
+      readmeRatio: names(readmeRepos),
+      missingReadmeCount: names(missingReadme),
+      readmeQualityRatio: names(analyzedRepos),
+      boilerplateReadmeCount: names(boilerplateRepos),
+      missingSetupDocsCount: names(missingSetupRepos),
+      screenshotCount: names(screenshotRepos),
+      organizedCount: names(organizedRepos),
+      organizedRatio: names(organizedRepos),
+      missingOrganizedCount: names(scoredRepos.filter(r => !organizedRepos.includes(r))),
+      lintingCount: names(lintingRepos),
+      lintingRatio: names(lintingRepos),
+      demoCount: names(demoRepos),
+      storyCount: names(storyRepos),
+      storyRatio: names(storyRepos),
+      completeRatio: names(completeRepos),
+      ciCount: names(ciRepos),
+      testsCount: names(testRepos),
+      languageCount: names(languageRepos),
+      hasModernLanguage: names(modernRepos),
+      frameworkRepoCount: names(frameworkRepos),
+      frameworkCount: names(withTech('framework')),
+      testRunnerRepoCount: names(testRunnerRepos),
+      ormRepoCount: names(ormRepos),
+      cloudSdkRepoCount: names(cloudSdkRepos),
+      hasIssues: names(issueRepos),
+      totalStars: names(starredRepos),
+      dockerRepoCount: names(dockerRepos),
+      terraformRepoCount: names(terraformRepos),
+      kubernetesRepoCount: names(kubernetesRepos),
+      notebookRepoCount: names(notebookRepos),
+      pythonPackageRepoCount: names(pythonPackageRepos),
+      datasetRepoCount: names(datasetRepos),
+      pythonRepoCount: names(pythonRepos),
+      a11yRepoCount: names(a11yRepos),
+      mobileRepoCount: names(mobileRepos),
+      apiSpecRepoCount: names(apiSpecRepos),
+      migrationRepoCount: names(migrationRepos),
     };
+    
+    return { values, repos, scored: names(scoredRepos) };
   }
   
   /**
-   * Dimension 2: Project Impact (weight varies by profile)
+   * Score one rubric dimension: base + rule points, scaled and clamped to 0-100.
+   * Every rule's contribution is recorded in the dimension's ledger.
    */
-  private static scoreProjectImpact(
-    data: GitHubAnalysisData,
-    scoredRepos: Repository[],
-    weight: number
+  private static scoreDimension(
+    dimension: RubricDimension,
+    snapshot: MetricSnapshot,
+    weight: number,
+    legendStatus: LegendStatus
   ): ScoreDimension {
-    let score = 0;
-    const suggestions: DetailedSuggestion[] = [];
-    
-    // Live demo detection (7 points per repo, up to 35)
-    const reposWithDemo = scoredRepos.filter(r => 
-      this.isRealProject(r) && (
-      r.readme_content?.toLowerCase().includes('vercel.app') ||
-      r.readme_content?.toLowerCase().includes('netlify.app') ||
-      r.readme_content?.toLowerCase().includes('github.io') ||
-      r.homepage
-    ));
-    score += Math.min(reposWithDemo.length * 7, 35);
-    
-    if (reposWithDemo.length === 0) {
-      suggestions.push({
-        id: 'deploy-project',
-        title: 'Deploy 1-2 projects to Vercel or Netlify',
-        points: 14,
-        category: 'Project Storytelling', // Renamed from Project Impact
-        difficulty: 'easy',
-        timeEstimate: '10 min',
-        priority: 'critical',
+    const { values: metrics } = snapshot;
+    const scale = dimension.scale ?? 1;
+    const ledger: ScoreLedgerEntry[] = [];
+    
+    if (dimension.baseScore) {
+      ledger.push({
+        ruleId: 'base',
+        type: 'base',
+        inputs: {},
+        detail: 'Starting score',
+        points: dimension.baseScore * scale,
+        possible: dimension.baseScore * scale,
+        repos: [],
       });
     }
+    let rawPoints = dimension.baseScore || 0;
+    dimension.rules.forEach(rule => {
+      const entry = this.evaluateRule(rule, snapshot);
+      rawPoints += entry.points;
+      ledger.push({ ...entry, points: this.roundPoints(entry.points * scale), possible: entry.possible * scale });
+    });
     
-    // Project storytelling (35 points)
-    const reposWithStory = scoredRepos.filter(r =>
-      this.isRealProject(r) && (
-      r.readme_content?.toLowerCase().includes('why i built') ||
-      r.readme_content?.toLowerCase().includes('problem') ||
-      r.readme_content?.toLowerCase().includes('motivation')
-    ));
-    score += (reposWithStory.length / Math.max(scoredRepos.length, 1)) * 35;
-    
-    if (reposWithStory.length < 2) {
-      suggestions.push({
-        id: 'add-storytelling',
-        title: 'Add "Why I Built This" section to READMEs',
-        points: 7,
-        category: 'Project Storytelling',
-        difficulty: 'easy',
-        timeEstimate: '15 min',
-        priority: 'high',
-      });
-    }
+    let score = Math.round(Math.min(100, Math.max(0, rawPoints * scale)));
     
-    // Project completeness (30 points)
-    const completeRepos = scoredRepos.filter(r =>
-      r.description &&
-      (r.readme_length || 0) > 200
-    );
-    score += (completeRepos.length / Math.max(scoredRepos.length, 1)) * 30;
+    const suggestions: DetailedSuggestion[] = dimension.suggestions
+      .filter(s => this.matches(s.when, metrics))
+      .map(({ when, pointsMetric, ...s }) => ({
+        ...s,
+        title: this.interpolate(s.title, metrics),
+        points: Math.round(s.points * (pointsMetric ? Number(metrics[pointsMetric] ?? 0) : 1)),
+        check: this.suggestionCheck(when, snapshot),
+      }));
     
-    const feedback = reposWithDemo.length > 0
-      ? `${reposWithDemo.length} live demos show real-world impact!`
-      : 'Deploy projects to show they actually work';
+    const feedbackEntry = dimension.feedback.find(f =>
+      !f.when || this.matches(f.when, { ...metrics, score } as RubricMetrics & { score: number })
+    );
+    let feedback = feedbackEntry ? this.interpolate(feedbackEntry.text, metrics) : '';
+    
+    // Legend override: infrastructure-level projects rarely have demos or "why I built this"
+    if (dimension.legendOverride && legendStatus.isLegend) {
+      ledger.push({
+        ruleId: 'legend-override',
+        type: 'legend',
+        inputs: {},
+        detail: `Legend status: ${legendStatus.reason}`,
+        points: 100 - score,
+        possible: 100 - score,
+        repos: [],
+      });
+      score = 100;
+      feedback = `Legendary impact: ${legendStatus.reason}`;
+    }
     
     return {
-      name: 'Project Impact',
-      score: Math.round(score),
+      name: dimension.name,
+      score,
       weight,
       feedback,
-      whyItMatters: 'Live demos prove your code works. Storytelling shows problem-solving skills.',
-      suggestions,
+      whyItMatters: dimension.whyItMatters,
+      suggestions: dimension.legendOverride && legendStatus.isLegend ? [] : suggestions,
+      ledger,
     };
   }
   
   /**
-   * Dimension 3: Current & Active (weight varies by profile)
+   * Evaluate one rule (unscaled); rules over a missing metric award nothing
    */
-  private static scoreCurrentActive(
-    data: GitHubAnalysisData,
-    weight: number
-  ): ScoreDimension {
-    let score = 0;
-    const suggestions: DetailedSuggestion[] = [];
-    
-    // Recency (50 points)
-    if (data.activityData.lastCommitDate) {
-      const daysSince = Math.floor(
-        (Date.now() - new Date(data.activityData.lastCommitDate).getTime()) / (1000 * 60 * 60 * 24)
-      );
-      
-      if (daysSince <= 7) score += 50;
-      else if (daysSince <= 30) score += 40;
-      else if (daysSince <= 90) score += 25;
-      else score += 10;
-      
-      if (daysSince > 30) {
-        suggestions.push({
-          id: 'commit-recently',
-          title: 'Make at least 1 commit this month',
-          points: 10,
-          category: 'Coding Consistency',
-          difficulty: 'easy',
-          timeEstimate: '1 hour',
-          priority: 'critical',
-        });
+  private static evaluateRule(rule: RubricRule, snapshot: MetricSnapshot): ScoreLedgerEntry {
+    const { values: metrics, repos } = snapshot;
+    const metric = rule.type === 'condition' ? rule.when.metric as RubricMetric : rule.metric;
+    const value = metrics[metric];
+    const base = {
+      ruleId: rule.id,
+      type: rule.type,
+      inputs: value === undefined ? {} : { [metric]: typeof value === 'number' ? this.roundPoints(value) : value },
+      repos: repos[metric] || [],
+    };
+    const shown = typeof value === 'number' ? this.roundPoints(value) : 'n/a';
+    
+    switch (rule.type) {
+      case 'condition': {
+        const met = this.matches(rule.when, metrics);
+        return {
+          ...base,
+          detail: `${metric} ${shown} ${OPERATOR_SYMBOLS[rule.when.op]} ${rule.when.value}: ${met ? 'met' : 'not met'}`,
+          points: met ? rule.points : 0,
+          possible: rule.points,
+        };
+      }
+      case 'ratio':
+        return {
+          ...base,
+          detail: `${metric} ${shown} × ${rule.points}`,
+          points: typeof value === 'number' ? value * rule.points : 0,
+          possible: rule.points,
+        };
+      case 'count':
+        return {
+          ...base,
+          detail: `${metric} ${shown} × ${rule.pointsEach} (max ${rule.max})`,
+          points: typeof value === 'number' ? Math.min(value * rule.pointsEach, rule.max) : 0,
+          possible: rule.max,
+        };
+      case 'tiers': {
+        const tier = typeof value === 'number'
+          ? rule.tiers.find(t => this.compare(value, t.op, t.value))
+          : undefined;
+        const points = typeof value !== 'number' ? 0 : tier ? tier.points : rule.otherwise || 0;
+        return {
+          ...base,
+          detail: typeof value !== 'number'
+            ? `${metric} unavailable`
+            : tier
+              ? `${metric} ${shown} ${OPERATOR_SYMBOLS[tier.op]} ${tier.value}`
+              : `${metric} ${shown} below every tier`,
+          points,
+          possible: Math.max(rule.otherwise || 0, ...rule.tiers.map(t => t.points)),
+        };
       }
     }
-    
-    // Consistency (50 points) - commits spread across weeks
-    const { commitFrequency } = data.activityData;
-    if (commitFrequency >= 20) score += 50;
-    else if (commitFrequency >= 10) score += 35;
-    else if (commitFrequency >= 5) score += 20;
-    else score += 5;
-    
-    if (commitFrequency < 5) {
-      suggestions.push({
-        id: 'commit-consistently',
-        title: 'Commit at least once per week for 1 month',
-        points: 15,
-        category: 'Coding Consistency',
-        difficulty: 'medium',
-        timeEstimate: 'Ongoing',
-        priority: 'high',
-      });
+  }
+  
+  private static matches(condition: RubricCondition, metrics: Record<string, number | string | undefined>): boolean {
+    const value = metrics[condition.metric];
+    return typeof value === 'number' && this.compare(value, condition.op, condition.value);
+  }
+  
+  private static compare(value: number, op: RubricOperator, target: number): boolean {
+    switch (op) {
+      case 'lt': return value < target;
+      case 'lte': return value <= target;
+      case 'gt': return value > target;
+      case 'gte': return value >= target;
+      case 'eq': return value === target;
+      case 'neq': return value !== target;
     }
-    
-    const feedback = commitFrequency >= 10
-      ? `Excellent activity: ${Math.round(commitFrequency)} commits/month!`
-      : `Low activity (${Math.round(commitFrequency)}/month). Code regularly to show current skills.`;
-    
-    return {
-      name: 'Coding Consistency', // User-facing rename
-      score: Math.round(score),
-      weight,
-      feedback,
-      whyItMatters: 'Recruiters filter for recent activity. Dormant accounts suggest outdated skills.',
-      suggestions,
-    };
+  }
+  
+  private static roundPoints(value: number): number {
+    return Math.round(value * 100) / 100;
   }
   
   /**
-   * Dimension 4: Production Readiness (weight varies by profile)
-   * Base score = 50 (neutral, no penalty)
+   * Fill "{metric}" placeholders; numbers are rounded for display
    */
-  private static scoreProductionReadiness(
-    data: GitHubAnalysisData,
-    scoredRepos: Repository[],
-    weight: number
-  ): ScoreDimension {
-    let score = 50; // Base score - no penalty for missing
-    const suggestions: DetailedSuggestion[] = [];
-    
-    // CI/CD (25 points bonus)
-    const reposWithCI = scoredRepos.filter(r => r.code_quality?.hasCI);
-    if (reposWithCI.length > 0) {
-      score += 25;
-    } else {
-      suggestions.push({
-        id: 'add-cicd',
-        title: 'Add GitHub Actions CI/CD workflow',
-        points: 25,
-        category: 'Deployment Maturity',
-        difficulty: 'easy',
-        timeEstimate: '10 min',
-        priority: 'medium',
+  private static interpolate(template: string, metrics: RubricMetrics): string {
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => {
+      const value = metrics[key as RubricMetric];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? String(Math.round(value)) : value;
+    });
+  }
+  
+  /**
+   * Detect red flags recruiters treat as deal-breakers
+   */
+  private static detectRedFlags(data: GitHubAnalysisData, topRepos: Repository[]): RedFlag[] {
+    const flags: RedFlag[] = [];
+    const { repositories, activityData, pinnedRepos, user } = data;
+    const nonForkRepos = repositories.filter(r => !r.is_fork);
+    
+    // No READMEs in the most visible repos
+    const topReposNoReadme = topRepos.filter(r => !r.has_readme);
+    if (topReposNoReadme.length >= 2) {
+      flags.push({
+        title: 'Missing READMEs in Visible Repos',
+        description: `${topReposNoReadme.length} of your most visible repos lack READMEs. This is a deal-breaker for most recruiters.`,
+        severity: 'high',
       });
     }
     
-    // Tests (20 points bonus)
-    const reposWithTests = scoredRepos.filter(r => r.code_quality?.hasTests);
-    if (reposWithTests.length > 0) {
-      score += 20;
-    } else {
-      suggestions.push({
-        id: 'add-tests',
-        title: 'Add basic tests to 1-2 projects',
-        points: 20,
-        category: 'Deployment Maturity',
-        difficulty: 'medium',
-        timeEstimate: '30 min',
-        priority: 'medium',
-      });
+    // Dormant account
+    if (activityData.lastCommitDate) {
+      const monthsSince = Math.floor(
+        (Date.now() - new Date(activityData.lastCommitDate).getTime()) / (1000 * 60 * 60 * 24 * 30)
+      );
+      if (monthsSince >= 6) {
+        flags.push({
+          title: 'Account Inactive',
+          description: `Last commit was ${monthsSince} months ago. Recruiters filter out profiles with no recent activity.`,
+          severity: 'high',
+        });
+      }
     }
     
-    // Environment setup (5 points bonus)
-    // Note: This would require file tree inspection, skipping for MVP
-    
-    const feedback = score > 70
-      ? 'Production-ready code with CI/CD and tests!'
-      : 'Add CI/CD and tests to show professional workflows (optional for students)';
-    
-    return {
-      name: 'Deployment Maturity', // User-facing rename
-      score: Math.min(score, 100),
-      weight,
-      feedback,
-      whyItMatters: 'Shows you can ship to production. Not required for students, but impressive.',
-      suggestions,
-    };
-  }
-  
-  /**
-   * Dimension 5: Technical Skill (weight varies by profile)
-   */
-  private static scoreTechnicalSkill(
-    data: GitHubAnalysisData,
-    scoredRepos: Repository[],
-    weight: number
-  ): ScoreDimension {
-    let score = 0;
-    const suggestions: DetailedSuggestion[] = [];
-    const { languageStats } = data;
-    
-    // Gamification Integration: Filter out zero-contribution forks for language stats
-    const realRepos = scoredRepos.filter(r => this.isRealProject(r));
-    const languageSet = new Set(realRepos.map(r => r.language).filter((l): l is string => !!l));
-    const uniqueLangs = languageSet.size;
-    const topLanguages = Array.from(languageSet);
-    
-    // Language diversity (40 points)
-    if (uniqueLangs >= 5) score += 40;
-    else if (uniqueLangs >= 3) score += 30;
-    else if (uniqueLangs >= 2) score += 20;
-    else score += 10;
-    
-    if (uniqueLangs < 3) {
-      suggestions.push({
-        id: 'learn-language',
-        title: 'Learn a complementary language (e.g., TypeScript, Python)',
-        points: 10,
-        category: 'Tech Stack Depth', // Renamed from Technical Skill
-        difficulty: 'hard',
-        timeEstimate: '1-2 months',
-        priority: 'low',
+    // Only forks (contributed forks still count as real work)
+    if (repositories.length > 0 && !repositories.some(r => this.isRealProject(r))) {
+      flags.push({
+        title: 'No Original Work',
+        description: 'All visible repos are forks. Recruiters need to see YOUR projects, not cloned tutorials.',
+        severity: 'high',
       });
     }
     
-    // Modern tech (30 points)
-    const modernLanguages = ['TypeScript', 'Python', 'Java', 'Kotlin', 'Swift', 'Go', 'Rust'];
-    const hasModern = topLanguages.some(lang => modernLanguages.includes(lang));
-    if (hasModern) score += 30;
+    // No pinned repos
+    if (pinnedRepos.length === 0) {
+      flags.push({
+        title: 'No Pinned Repositories',
+        description: 'Pin 4-6 best projects! Pinned repos are prime real estate—they control your first impression.',
+        severity: 'medium',
+      });
+    }
     
-    // Framework usage (30 points)
-    const frameworks = ['react', 'vue', 'angular', 'nextjs', 'svelte', 'express', 'django', 'spring'];
-    const frameworkRepos = scoredRepos.filter(r =>
-      r.topics.some(t => frameworks.includes(t.toLowerCase()))
+    // Too many empty repos (no stars, no forks, tiny, undocumented)
+    const trivialRepos = nonForkRepos.filter(r =>
+      r.size < 10 && !r.has_readme && r.stars === 0 && r.forks === 0
     );
-    score += Math.min(frameworkRepos.length * 10, 30);
+    if (trivialRepos.length > 10) {
+      flags.push({
+        title: 'Portfolio Dilution',
+        description: `${trivialRepos.length} very small/undocumented repos clutter your profile. Archive or delete them to focus attention on real work.`,
+        severity: 'medium',
+      });
+    }
     
-    const feedback = uniqueLangs >= 3
-      ? `Strong technical breadth: ${topLanguages.slice(0, 3).join(', ')}`
-      : `Limited to ${topLanguages[0]}. Learn 1-2 more languages.`;
+    // No profile bio
+    if (!user.bio || user.bio.length < 20) {
+      flags.push({
+        title: 'Missing Profile Bio',
+        description: 'Your bio is your elevator pitch. Add 1-2 sentences about what you build and why.',
+        severity: 'low',
+      });
+    }
     
-    return {
-      name: 'Tech Stack Depth', // User-facing rename
-      score: Math.round(score),
-      weight,
-      feedback,
-      whyItMatters: 'Breadth shows adaptability, depth shows mastery. Both matter to recruiters.',
-      suggestions,
-    };
+    return flags;
   }
   
   /**
-   * Dimension 6: Community Trust (weight varies by profile)
-   * Raw points × 10 = dimension score
+   * Detect world-class "Legend Status" developers
+   * Criteria: 100K+ total stars, 50K+ followers, or a single 50K+ star project
    */
-  private static scoreCommunityTrust(
-    data: GitHubAnalysisData,
-    weight: number
-  ): ScoreDimension {
-    let rawPoints = 0;
-    const suggestions: DetailedSuggestion[] = [];
-    
-    // PR/Issue activity (8 points)
-    const hasIssues = data.repositories.some(r => r.open_issues > 0);
-    if (hasIssues) rawPoints += 3;
-    else {
-      suggestions.push({
-        id: 'create-issues',
-        title: 'Create issues for feature ideas in your repos',
-        points: 3,
-        category: 'Collaboration Signals',
-        difficulty: 'easy',
-        timeEstimate: '10 min',
-        priority: 'low',
-      });
+  private static detectLegendStatus(data: GitHubAnalysisData): LegendStatus {
+    const { user, repositories } = data;
+    const totalStars = repositories.reduce((sum, r) => sum + r.stars, 0);
+    
+    if (totalStars >= 100000) {
+      return {
+        isLegend: true,
+        reason: `Infrastructure-level impact: ${totalStars.toLocaleString()} stars across projects`,
+      };
     }
     
-    // Note: PR activity requires GitHub token, skipping for MVP
-    // Would add +3 points
-    
-    // Contributors (2 points)
-    // Note: Requires additional API call, skipping for MVP
-    
-    // Stars/forks (2 points max)
-    const totalStars = data.repositories.reduce((sum, r) => sum + r.stars, 0);
-    if (totalStars >= 200) rawPoints += 2;
-    else if (totalStars >= 50) rawPoints += 1;
-    
-    // Convert to 0-100 scale
-    const score = Math.min(rawPoints * 10, 100);
+    if (user.followers >= 50000) {
+      return {
+        isLegend: true,
+        reason: `Industry leader: ${user.followers.toLocaleString()} followers`,
+      };
+    }
     
-    const feedback = totalStars > 50
-      ? `${totalStars} stars show community validation!`
-      : 'Build impressive projects to earn stars (not critical for students)';
+    if (repositories.some(r => r.stars >= 50000)) {
+      return { isLegend: true, reason: 'Created industry-changing technology' };
+    }
     
-    return {
-      name: 'Collaboration Signals', // User-facing rename
-      score,
-      weight,
-      feedback,
-      whyItMatters: 'External validation matters, but not critical for early-career developers.',
-      suggestions,
-    };
+    return { isLegend: false, reason: '' };
   }
   
   /**
@@ -0,0 +1,174 @@
+/**
+ * README Analyzer - Section-Level README Quality
+ *
+ * Parses a README's Markdown into sections and checks for the parts a recruiter
+ * looks for: a title and description, install and usage instructions,
+ * screenshots, the tech stack, a live demo, a license and contributing notes.
+ * Untouched framework boilerplate (create-react-app, Vite, Next.js, ...) is
+ * detected and scores zero, since it says nothing about the project.
+ *
+ * Feeds the README metrics of NewScoringEngine and the documentation category
+ * and suggestions of repo scorecards.
+ */
+
+import { ScoringRubric } from './scoring-rubric';
+
+export type ReadmeCheck =
+  | 'title' | 'description' | 'installation' | 'usage' | 'screenshots'
+  | 'techStack' | 'demoLink' | 'license' | 'contributing';
+
+export interface ReadmeSection {
+  level: number;             // Heading level (1-6)
+  text: string;              // Heading text
+  length: number;            // Characters of body text until the next heading
+}
+
+export interface ReadmeAnalysis {
+  sections: ReadmeSection[];
+  checks: Record<ReadmeCheck, boolean>;
+  missing: ReadmeCheck[];    // Failed checks, most valuable first
+  boilerplate: string | null;   // Template name when the README is untouched boilerplate
+  score: number;             // 0-100 (0 for boilerplate)
+}
+
+type ReadmeLists = Pick<ScoringRubric['lists'], 'demoHosts' | 'storyKeywords'>;
+
+/**
+ * Checks in priority order: points (sum 100), label and the fix to suggest
+ */
+export const README_CHECKS: { id: ReadmeCheck; points: number; label: string; suggestion: string }[] = [
+  { id: 'description', points: 20, label: 'Description', suggestion: 'Open the README with what the project does and why you built it' },
+  { id: 'installation', points: 15, label: 'Installation', suggestion: 'Add installation / setup steps to the README' },
+  { id: 'usage', points: 15, label: 'Usage', suggestion: 'Add usage examples to the README' },
+  { id: 'screenshots', points: 15, label: 'Screenshots', suggestion: 'Add a screenshot or demo GIF to the README' },
+  { id: 'techStack', points: 10, label: 'Tech stack', suggestion: 'List the tech stack in a "Built With" section' },
+  { id: 'demoLink', points: 10, label: 'Live demo link', suggestion: 'Link the live demo from the README' },
+  { id: 'title', points: 5, label: 'Title', suggestion: 'Start the README with a project title heading' },
+  { id: 'license', points: 5, label: 'License', suggestion: 'Add a license section' },
+  { id: 'contributing', points: 5, label: 'Contributing', suggestion: 'Add contributing notes' },
+];
+
+/**
+ * Default READMEs generated by project scaffolds
+ */
+const BOILERPLATE_TEMPLATES: { name: string; regex: RegExp }[] = [
+  { name: 'Create React App', regex: /this project was bootstrapped with \[create react app\]/i },
+  { name: 'Vite', regex: /this template provides a minimal setup to get \w+ working in vite|^#\s*(react|vue|svelte|preact|lit|solid|vanilla)\b[^\n]*\+\s*vite/im },
+  { name: 'Next.js', regex: /this is a \[next\.js\]\([^)]*\) project bootstrapped with/i },
+  { name: 'Angular CLI', regex: /this project was generated (with|using) \[angular cli\]/i },
+  { name: 'Expo', regex: /this is an \[expo\]\([^)]*\) project created with/i },
+  { name: 'Laravel', regex: /^##\s*about laravel/im },
+];
+
+// A template phrase this close to the top means nothing was written above it
+const BOILERPLATE_WINDOW = 400;
+
+const SECTION_PATTERNS: Partial<Record<ReadmeCheck, RegExp>> = {
+  description: /\b(about|overview|introduction|description|features|what is)\b/i,
+  installation: /\b(install(ation|ing)?|setup|set up|getting started|quick ?start|prerequisites|running locally|build(ing)?)\b/i,
+  usage: /\b(usage|examples?|how to use|how it works|commands|api|running)\b/i,
+  screenshots: /\b(screenshots?|preview|demo|gallery)\b/i,
+  techStack: /\b(tech(nology|nologies)?( stack)?|built with|stack|tools( used)?|dependencies)\b/i,
+  license: /\blicen[cs]e\b/i,
+  contributing: /\bcontribut(e|ing|ors?|ions?)\b/i,
+};
+
+const INSTALL_COMMAND = /\b(npm (i|install|ci)|yarn( install)?|pnpm (i|install)|pip3? install|poetry install|git clone|docker(-| )compose up|cargo (build|install)|go (get|install)|bundle install|composer install|mvn (install|package)|gradle(w)? build|make install)\b/i;
+const IMAGE = /!\[[^\]]*\]\(([^)\s]+)[^)]*\)|<img[^>]+src=["']([^"']+)["']/gi;
+const BADGE_HOSTS = /shields\.io|badge|travis-ci|codecov|circleci|badgen|\/workflows\/.*\.svg/i;
+const MEDIA_LINK = /\]\([^)\s]+\.(gif|mp4|webm|mov)\)/i;
+const LICENSE_MENTION = /\b(MIT|Apache|GPL|BSD|MPL)[ -]?(licen[cs]e|2\.0|3\.0|v\d)|\]\([^)]*LICENSE[^)]*\)/i;
+const CONTRIBUTING_LINK = /\]\([^)]*CONTRIBUTING(\.md)?\)/i;
+
+// Intro paragraph this long (characters) counts as a description
+const MIN_INTRO_LENGTH = 80;
+
+/**
+ * Split Markdown into heading sections (ATX "#", setext "===" and HTML <hN>),
+ * ignoring fenced code blocks. `bodies[i]` is the text under `sections[i]`;
+ * text before the first heading is the intro.
+ */
+export const parseReadmeSections = (content: string) => {
+  const sections: ReadmeSection[] = [];
+  const bodies: string[] = [];
+  const lines = content.split('\n');
+  let intro = '';
+  let inFence = false;
+
+  const heading = (level: number, text: string) => {
+    sections.push({ level, text, length: 0 });
+    bodies.push('');
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1] || '';
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const atx = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const html = !inFence && line.match(/^\s*<h([1-6])[^>]*>(.*?)<\/h\1>/i);
+    const setext = !inFence && line.trim() && !/^\s*[-*+|>]/.test(line) && /^(=+|-+)\s*$/.test(next);
+    if (atx) {
+      heading(atx[1].length, atx[2]);
+    } else if (html) {
+      heading(Number(html[1]), html[2].replace(/<[^>]+>/g, '').trim());
+    } else if (setext) {
+      heading(next.trim().startsWith('=') ? 1 : 2, line.trim());
+      i++;
+    } else if (sections.length) {
+      sections[sections.length - 1].length += line.trim().length;
+      bodies[bodies.length - 1] += `${line}\n`;
+    } else {
+      intro += `${line}\n`;
+    }
+  }
+
+  return { intro, sections, bodies };
+};
+
+/**
+ * Analyze one README
+ */
+export const analyzeReadme = (content: string, lists: ReadmeLists): ReadmeAnalysis => {
+  const { intro, sections, bodies } = parseReadmeSections(content);
+  const lower = content.toLowerCase();
+  const headings = sections.map(s => s.text);
+  const hasSection = (check: ReadmeCheck) => {
+    const pattern = SECTION_PATTERNS[check];
+    return !!pattern && headings.some(heading => pattern.test(heading));
+  };
+
+  // Intro prose: text under the title (or before any heading), minus badges, images and HTML
+  const titleIndex = sections.findIndex(s => s.level === 1);
+  const introText = (titleIndex === 0 ? bodies[0] : intro)
+    .replace(/\[!\[[^\]]*\]\([^)]*\)\]\([^)]*\)|!\[[^\]]*\]\([^)]*\)|<[^>]+>/g, '')
+    .trim();
+  const storySection = headings.some(heading =>
+    lists.storyKeywords.some(keyword => heading.toLowerCase().includes(keyword.toLowerCase()))
+  );
+
+  const images = Array.from(content.matchAll(IMAGE)).map(match => match[1] || match[2]);
+  const screenshots = images.some(src => !BADGE_HOSTS.test(src)) || MEDIA_LINK.test(content);
+
+  const checks: Record<ReadmeCheck, boolean> = {
+    title: titleIndex !== -1 || /^\s*#\s/.test(content),
+    description: introText.length >= MIN_INTRO_LENGTH || hasSection('description') || storySection,
+    installation: hasSection('installation') || INSTALL_COMMAND.test(content),
+    usage: hasSection('usage'),
+    screenshots: screenshots || (hasSection('screenshots') && images.length > 0),
+    techStack: hasSection('techStack'),
+    demoLink: lists.demoHosts.some(host => lower.includes(host.toLowerCase())) || /\blive (demo|site|version)\b/i.test(content),
+    license: hasSection('license') || LICENSE_MENTION.test(content),
+    contributing: hasSection('contributing') || CONTRIBUTING_LINK.test(content),
+  };
+
+  const template = BOILERPLATE_TEMPLATES.find(t => {
+    const index = content.search(t.regex);
+    return index !== -1 && index < BOILERPLATE_WINDOW;
+  });
+
+  const missing = README_CHECKS.filter(c => !checks[c.id]).map(c => c.id);
+  const score = template ? 0 : README_CHECKS.reduce((sum, c) => sum + (checks[c.id] ? c.points : 0), 0);
+
+  return { sections, checks, missing, boilerplate: template?.name || null, score };
+};
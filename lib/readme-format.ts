@@ -0,0 +1,202 @@
+/**
+ * README Format - File Resolution and Markup Conversion
+ *
+ * GitHub renders a repo's README from `.github/`, the root or `docs/` (in
+ * that order), accepting any file named README regardless of case or markup.
+ * Both GitHub services resolve READMEs the same way so a `README.rst` or
+ * `docs/README.md` is not reported as missing.
+ *
+ * reStructuredText, AsciiDoc and Org READMEs are converted to Markdown so the
+ * README analyzer sees the same headings, links, images and code blocks.
+ */
+
+export type ReadmeFormat = 'markdown' | 'rst' | 'asciidoc' | 'org' | 'text';
+
+/**
+ * README paths probed by the GraphQL service, in GitHub's precedence order
+ * (GraphQL object expressions are case-sensitive, so common casings are listed)
+ */
+export const README_PATHS = [
+  '.github/README.md',
+  'README.md', 'readme.md', 'Readme.md', 'README.markdown',
+  'README.rst', 'README.adoc', 'README.asciidoc', 'README.org', 'README.txt', 'README',
+  'docs/README.md', 'docs/README.rst',
+];
+
+const README_NAME = /^readme(\.[a-z0-9]+)?$/i;
+
+const FORMAT_EXTENSIONS: Record<string, ReadmeFormat> = {
+  md: 'markdown', markdown: 'markdown', mdown: 'markdown', mkdn: 'markdown',
+  rst: 'rst', rest: 'rst',
+  adoc: 'asciidoc', asciidoc: 'asciidoc', asc: 'asciidoc',
+  org: 'org',
+};
+
+/**
+ * Whether a file name is a README GitHub would render (README, readme.md, Readme.rst, ...)
+ */
+export const isReadmeName = (name: string): boolean => README_NAME.test(name);
+
+/**
+ * Markup format of a README path, by extension (plain text when unknown)
+ */
+export const readmeFormat = (path: string): ReadmeFormat => {
+  const extension = path.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase() || '';
+  return FORMAT_EXTENSIONS[extension] || 'text';
+};
+
+/**
+ * Convert README text to Markdown (Markdown and plain text are returned as-is)
+ */
+export const toMarkdown = (text: string, format: ReadmeFormat): string => {
+  switch (format) {
+    case 'rst':
+      return rstToMarkdown(text);
+    case 'asciidoc':
+      return asciidocToMarkdown(text);
+    case 'org':
+      return orgToMarkdown(text);
+    default:
+      return text;
+  }
+};
+
+/**
+ * reStructuredText: adornment headings (level by order of first use), links,
+ * images, code-block directives and `::` literal blocks
+ */
+const rstToMarkdown = (text: string): string => {
+  const lines = text.split('\n');
+  const out: string[] = [];
+  const headingStyles: string[] = [];
+  const isAdornment = (line: string | undefined) => !!line && /^([=\-~^"'`#*+:.])\1{2,}\s*$/.test(line);
+  let codeIndent: number | null = null;
+  let pendingCode: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Inside an indented literal / code block
+    if (codeIndent !== null) {
+      const indent = line.match(/^\s*/)?.[0].length || 0;
+      if (!line.trim() || indent >= codeIndent) {
+        out.push(line.slice(codeIndent));
+        continue;
+      }
+      out.push('```');
+      codeIndent = null;
+    }
+    if (pendingCode !== null && line.trim()) {
+      const indent = line.match(/^\s*/)?.[0].length || 0;
+      // Directive options (":linenos:") precede the block body
+      if (/^\s+:\w[\w-]*:/.test(line)) continue;
+      if (indent > 0) {
+        out.push(`\`\`\`${pendingCode}`);
+        codeIndent = indent;
+        pendingCode = null;
+        out.push(line.slice(codeIndent));
+        continue;
+      }
+      pendingCode = null;
+    }
+
+    // Headings: optional overline, title, underline
+    const overline = isAdornment(line) && lines[i + 1]?.trim() && isAdornment(lines[i + 2]);
+    const underline = line.trim() && !isAdornment(line) && isAdornment(lines[i + 1])
+      && lines[i + 1].trim().length >= line.trim().length;
+    if (overline || underline) {
+      const style = overline ? `${line[0]}${line[0]}` : lines[i + 1][0];
+      if (!headingStyles.includes(style)) headingStyles.push(style);
+      const title = overline ? lines[i + 1].trim() : line.trim();
+      out.push(`${'#'.repeat(Math.min(headingStyles.indexOf(style) + 1, 6))} ${title}`);
+      i += overline ? 2 : 1;
+      continue;
+    }
+
+    const image = line.match(/^\s*\.\.\s+(?:\|[^|]+\|\s+)?(?:image|figure)::\s*(\S+)/);
+    if (image) {
+      out.push(`![](${image[1]})`);
+      continue;
+    }
+    const code = line.match(/^\s*\.\.\s+(?:code-block|code|sourcecode)::\s*(\S*)/);
+    if (code) {
+      pendingCode = code[1];
+      continue;
+    }
+    // Other directive options (":alt: ...") and comments
+    if (/^\s+:\w[\w-]*:/.test(line) || /^\.\.\s*$/.test(line)) continue;
+
+    let converted = line
+      .replace(/`([^`<]+?)\s*<([^>]+)>`__?/g, '[$1]($2)')
+      .replace(/``([^`]+)``/g, '`$1`');
+    if (/::\s*$/.test(converted) && !/^\s*\.\./.test(converted)) {
+      converted = converted.replace(/::\s*$/, converted.trim() === '::' ? '' : ':');
+      pendingCode = '';
+    }
+    out.push(converted);
+  }
+  if (codeIndent !== null) out.push('```');
+
+  return out.join('\n');
+};
+
+/**
+ * AsciiDoc: "=" headings, link/image macros, [source] and "----" blocks
+ */
+const asciidocToMarkdown = (text: string): string => {
+  const out: string[] = [];
+  let language = '';
+  let inBlock = false;
+
+  text.split('\n').forEach(line => {
+    if (/^(-{4,}|\.{4,})\s*$/.test(line)) {
+      out.push(inBlock ? '```' : `\`\`\`${language}`);
+      inBlock = !inBlock;
+      language = '';
+      return;
+    }
+    if (inBlock) {
+      out.push(line);
+      return;
+    }
+
+    const source = line.match(/^\[source,\s*([\w+-]+)/);
+    if (source) {
+      language = source[1];
+      return;
+    }
+    // Document attributes (":toc:") and block attributes ("[NOTE]")
+    if (/^:[\w-]+:/.test(line) || /^\[[^\]]*\]\s*$/.test(line)) return;
+
+    const heading = line.match(/^(={1,6})\s+(.+)$/);
+    if (heading) {
+      out.push(`${'#'.repeat(heading[1].length)} ${heading[2]}`);
+      return;
+    }
+
+    out.push(line
+      .replace(/image::?([^\s[]+)\[([^\]]*)\]/g, '![$2]($1)')
+      .replace(/link:([^\s[]+)\[([^\]]*)\]/g, '[$2]($1)')
+      .replace(/(?<!\()(https?:\/\/[^\s[]+)\[([^\]]+)\]/g, '[$2]($1)'));
+  });
+
+  return out.join('\n');
+};
+
+/**
+ * Org mode: "*" headings, #+TITLE, [[url][text]] links and #+BEGIN_SRC blocks
+ */
+const orgToMarkdown = (text: string): string =>
+  text.split('\n').map(line => {
+    const heading = line.match(/^(\*{1,6})\s+(.+)$/);
+    if (heading) return `${'#'.repeat(heading[1].length)} ${heading[2]}`;
+    const title = line.match(/^#\+title:\s*(.+)$/i);
+    if (title) return `# ${title[1]}`;
+    const source = line.match(/^\s*#\+begin_(?:src|example)\s*(\S*)/i);
+    if (source) return `\`\`\`${source[1]}`;
+    if (/^\s*#\+end_(src|example)/i.test(line)) return '```';
+    return line
+      .replace(/\[\[([^\]]+\.(?:png|jpe?g|gif|svg|webp))\]\]/gi, '![]($1)')
+      .replace(/\[\[([^\]]+)\]\[([^\]]+)\]\]/g, '[$2]($1)')
+      .replace(/\[\[([^\]]+)\]\]/g, '<$1>');
+  }).join('\n');
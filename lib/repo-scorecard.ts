@@ -0,0 +1,242 @@
+/**
+ * Repo Scorecard - Per-Repository Assessment
+ *
+ * The portfolio score says how a profile reads as a whole; the scorecard says
+ * what a single repository is doing well and what to fix next. It is computed
+ * from the same GitHub data (and the rubric's demo hosts and story keywords)
+ * for every analyzed repo.
+ *
+ * Categories (0-100 each, weighted into the card score):
+ * - documentation: README sections (readme-analyzer.ts), description, topics
+ * - demo:          homepage or a live-demo link in the README
+ * - tooling:       CI, tests, linting, TypeScript, Docker
+ * - activity:      days since the last update
+ * - originality:   original work vs. forks
+ * - community:     stars, forks, open issues
+ *
+ * Tooling is only known for repos that were inspected in detail (GraphQL mode
+ * inspects the top candidates only); uninspected repos are scored without it.
+ */
+
+import { Repository } from './github-service';
+import { REPO_SIGNALS, REPO_SIGNAL_LABELS } from './repo-signals';
+import { ScoringRubric } from './scoring-rubric';
+import { README_CHECKS, analyzeReadme } from './readme-analyzer';
+import { DEFAULT_TIME_ZONE, localDay } from './contribution-activity';
+
+export type RepoScoreCategoryId = 'documentation' | 'demo' | 'tooling' | 'activity' | 'originality' | 'community';
+
+export interface RepoScoreCategory {
+  id: RepoScoreCategoryId;
+  name: string;
+  score: number;             // 0-100
+  weight: number;            // Share of the card score (0 when not assessed)
+  detail: string;            // e.g. "README 65/100, description, 3 topics"
+}
+
+export interface RepoSuggestion {
+  title: string;
+  category: RepoScoreCategoryId;
+  priority: 'high' | 'medium' | 'low';
+}
+
+export interface RepoScorecard {
+  repo: string;
+  score: number;             // Weighted 0-100
+  inspected: boolean;        // Tooling was checked (CI, tests, root files)
+  categories: RepoScoreCategory[];
+  suggestions: RepoSuggestion[];
+  tooling: string[];         // Detected tooling, e.g. ["GitHub Actions", "Tests", "Docker"]
+}
+
+export interface CommitMonth {
+  month: string;             // YYYY-MM
+  count: number;
+}
+
+const CATEGORY_WEIGHTS: Record<RepoScoreCategoryId, number> = {
+  documentation: 25,
+  demo: 15,
+  tooling: 20,
+  activity: 15,
+  originality: 10,
+  community: 15,
+};
+
+const CATEGORY_NAMES: Record<RepoScoreCategoryId, string> = {
+  documentation: 'Documentation',
+  demo: 'Live Demo',
+  tooling: 'Quality Tooling',
+  activity: 'Activity',
+  originality: 'Originality',
+  community: 'Community',
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Tooling detected on a repo, in display order
+ */
+export const detectTooling = (repo: Repository): string[] => {
+  const quality = repo.code_quality;
+  const tooling = [
+    quality?.hasCI && 'GitHub Actions',
+    quality?.hasTests && 'Tests',
+    quality?.hasLinting && 'Linting / formatting',
+    quality?.hasTypeScript && 'TypeScript',
+  ].filter((label): label is string => !!label);
+
+  REPO_SIGNALS.forEach(signal => {
+    if (repo.signals?.[signal]) tooling.push(REPO_SIGNAL_LABELS[signal]);
+  });
+
+  return tooling;
+};
+
+/**
+ * Score one repository
+ */
+export const scoreRepository = (repo: Repository, rubric: ScoringRubric): RepoScorecard => {
+  const readme = repo.readme_content ? analyzeReadme(repo.readme_content, rubric.lists) : null;
+  const inspected = repo.signals !== undefined;
+  const suggestions: RepoSuggestion[] = [];
+  const suggest = (category: RepoScoreCategoryId, priority: RepoSuggestion['priority'], title: string) =>
+    suggestions.push({ title, category, priority });
+
+  // Documentation: README analyzer score (70%), description and topics
+  let documentation = 0;
+  const docParts: string[] = [];
+  if (readme?.boilerplate) {
+    docParts.push(`${readme.boilerplate} template README`);
+    suggest('documentation', 'high', `Replace the default ${readme.boilerplate} README with one about your project`);
+  } else if (readme) {
+    documentation += Math.round(readme.score * 0.7);
+    docParts.push(`README ${readme.score}/100`);
+    README_CHECKS
+      .filter(check => check.id !== 'demoLink' && readme.missing.includes(check.id))
+      .forEach(check => suggest('documentation', check.points >= 20 ? 'high' : check.points >= 15 ? 'medium' : 'low', check.suggestion));
+  } else if (repo.has_readme) {
+    // README exists but its text was not fetched (outside the detailed repo set)
+    documentation += 40;
+    docParts.push(`README (${(repo.readme_length || 0).toLocaleString('en-US')} bytes, not analyzed)`);
+  } else {
+    suggest('documentation', 'high', 'Add a README explaining what the project does and how to run it');
+  }
+  if (repo.description) {
+    documentation += 20;
+    docParts.push('description');
+  } else {
+    suggest('documentation', 'medium', 'Add a one-line repository description');
+  }
+  if (repo.topics.length > 0) {
+    documentation += 10;
+    docParts.push(`${repo.topics.length} topic${repo.topics.length === 1 ? '' : 's'}`);
+  } else {
+    suggest('documentation', 'low', 'Add GitHub topics so the repo shows up in searches');
+  }
+
+  // Demo
+  const demoLink = !!readme?.checks.demoLink;
+  const demo = (repo.homepage ? 60 : 0) + (demoLink ? 40 : 0);
+  const demoParts = [repo.homepage && 'homepage set', demoLink && 'demo link in README'].filter(Boolean);
+  if (!repo.homepage && !demoLink) {
+    suggest('demo', 'high', 'Deploy a live demo and set it as the repository homepage');
+  } else if (!repo.homepage) {
+    suggest('demo', 'low', 'Set the demo URL as the repository homepage');
+  } else if (readme && !demoLink) {
+    suggest('demo', 'low', 'Link the live demo from the README');
+  }
+
+  // Tooling
+  const quality = repo.code_quality;
+  const tooling = detectTooling(repo);
+  const toolingScore = Math.min(100,
+    (quality?.hasCI ? 30 : 0) + (quality?.hasTests ? 30 : 0) + (quality?.hasLinting ? 20 : 0)
+    + (quality?.hasTypeScript ? 10 : 0) + (repo.signals?.hasDocker ? 10 : 0)
+  );
+  if (inspected) {
+    if (!quality?.hasTests) suggest('tooling', 'high', 'Add automated tests');
+    if (!quality?.hasCI) suggest('tooling', 'medium', 'Run the tests on every push with a GitHub Actions workflow');
+    if (!quality?.hasLinting) suggest('tooling', 'low', 'Add a linter or formatter config');
+  }
+
+  // Activity
+  const lastActivity = [repo.updated_at, ...(repo.commit_dates || [])]
+    .filter(Boolean)
+    .reduce((latest, date) => Math.max(latest, new Date(date).getTime()), 0);
+  const daysSinceUpdate = lastActivity ? Math.floor((Date.now() - lastActivity) / DAY_MS) : null;
+  const activity = daysSinceUpdate === null ? 0
+    : daysSinceUpdate <= 30 ? 100
+    : daysSinceUpdate <= 90 ? 75
+    : daysSinceUpdate <= 180 ? 50
+    : daysSinceUpdate <= 365 ? 25
+    : 0;
+  if (daysSinceUpdate !== null && daysSinceUpdate > 365 && !repo.is_fork) {
+    suggest('activity', 'low', 'Archive the repo or note in the README that it is finished');
+  }
+
+  // Originality
+  const authored = repo.authored_commit_count || 0;
+  const originality = !repo.is_fork ? 100 : authored > 0 ? 50 : 0;
+  if (repo.is_fork && authored === 0) {
+    suggest('originality', 'medium', 'Contribute to this fork or hide it from your profile');
+  }
+
+  // Community
+  const community = Math.min(100,
+    (repo.stars >= 50 ? 60 : repo.stars >= 10 ? 40 : repo.stars > 0 ? 20 : 0)
+    + (repo.forks >= 10 ? 25 : repo.forks > 0 ? 15 : 0)
+    + (repo.open_issues > 0 ? 15 : 0)
+  );
+
+  const category = (id: RepoScoreCategoryId, categoryScore: number, detail: string): RepoScoreCategory => ({
+    id,
+    name: CATEGORY_NAMES[id],
+    score: categoryScore,
+    weight: id === 'tooling' && !inspected ? 0 : CATEGORY_WEIGHTS[id],
+    detail,
+  });
+  const categories = [
+    category('documentation', documentation, docParts.join(', ') || 'No README, description or topics'),
+    category('demo', demo, demoParts.join(', ') || 'No live demo found'),
+    category('tooling', toolingScore, inspected
+      ? tooling.join(', ') || 'No tooling detected'
+      : 'Not inspected (outside the detailed repo set)'),
+    category('activity', activity, daysSinceUpdate === null ? 'No activity recorded' : `Updated ${daysSinceUpdate} days ago`),
+    category('originality', originality, !repo.is_fork
+      ? 'Original repository'
+      : authored > 0 ? `Fork with ${authored} authored commits` : 'Fork without own commits'),
+    category('community', community, `★ ${repo.stars} · ${repo.forks} forks · ${repo.open_issues} open issues`),
+  ];
+
+  const totalWeight = categories.reduce((sum, c) => sum + c.weight, 0);
+  const score = Math.round(categories.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+
+  const priorityOrder = { high: 0, medium: 1, low: 2 };
+  suggestions.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+
+  return { repo: repo.name, score, inspected, categories, suggestions, tooling };
+};
+
+/**
+ * Commits per month over the last `months` months in the user's timezone, oldest first
+ */
+export const commitTimeline = (
+  dates: string[] | undefined,
+  months = 12,
+  timeZone = DEFAULT_TIME_ZONE
+): CommitMonth[] => {
+  const [year, month] = localDay(new Date(), timeZone).split('-').map(Number);
+  const timeline: CommitMonth[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const start = new Date(Date.UTC(year, month - 1 - i, 1));
+    timeline.push({ month: start.toISOString().slice(0, 7), count: 0 });
+  }
+
+  (dates || []).forEach(date => {
+    const entry = timeline.find(t => t.month === localDay(date, timeZone).slice(0, 7));
+    if (entry) entry.count++;
+  });
+
+  return timeline;
+};
@@ -0,0 +1,86 @@
+/**
+ * Repo Signals - Role-Track Indicators From a Repository's Root
+ *
+ * Role tracks (frontend, backend, data/ML, mobile, DevOps) reward tooling that
+ * the generic code-quality checks don't look at. Both GitHub services hand the
+ * root level of each detailed repo's file tree (see tooling-detectors.ts) and
+ * its package.json to `detectRepoSignals`, so detection is identical in
+ * GraphQL and REST mode.
+ */
+
+export interface RepoSignals {
+  hasDocker: boolean;            // Dockerfile / compose file
+  hasTerraform: boolean;         // *.tf files or a terraform/ directory
+  hasKubernetes: boolean;        // k8s/helm manifests
+  hasNotebooks: boolean;         // Jupyter notebooks
+  hasPythonPackaging: boolean;   // pyproject.toml / setup.py / setup.cfg
+  hasDatasets: boolean;          // data/ or datasets/ directory, CSV/Parquet files
+  hasA11yTooling: boolean;       // axe, pa11y, jsx-a11y, ...
+  hasMobileProject: boolean;     // Android / iOS / Flutter / React Native project
+  hasApiSpec: boolean;           // OpenAPI / Swagger spec
+  hasMigrations: boolean;        // Database migrations / schema tooling
+}
+
+export type RepoSignal = keyof RepoSignals;
+
+export const REPO_SIGNALS: RepoSignal[] = [
+  'hasDocker', 'hasTerraform', 'hasKubernetes', 'hasNotebooks', 'hasPythonPackaging',
+  'hasDatasets', 'hasA11yTooling', 'hasMobileProject', 'hasApiSpec', 'hasMigrations',
+];
+
+/**
+ * Human-readable names for the detected-tooling list on repo pages
+ */
+export const REPO_SIGNAL_LABELS: Record<RepoSignal, string> = {
+  hasDocker: 'Docker',
+  hasTerraform: 'Terraform',
+  hasKubernetes: 'Kubernetes / Helm',
+  hasNotebooks: 'Jupyter notebooks',
+  hasPythonPackaging: 'Python packaging',
+  hasDatasets: 'Datasets',
+  hasA11yTooling: 'Accessibility tooling',
+  hasMobileProject: 'Mobile project',
+  hasApiSpec: 'OpenAPI spec',
+  hasMigrations: 'Database migrations',
+};
+
+export interface RootEntry {
+  name: string;
+  type: 'file' | 'dir';
+}
+
+const A11Y_PACKAGES = [
+  'eslint-plugin-jsx-a11y', 'axe-core', '@axe-core/', 'jest-axe', 'pa11y',
+  'eslint-plugin-vuejs-accessibility', '@storybook/addon-a11y', 'cypress-axe',
+];
+
+/**
+ * Derive role signals from root entries, package.json text and primary language
+ */
+export const detectRepoSignals = (
+  entries: RootEntry[],
+  packageJson: string | null,
+  language: string | null
+): RepoSignals => {
+  const files = new Set(entries.filter(e => e.type === 'file').map(e => e.name.toLowerCase()));
+  const dirs = new Set(entries.filter(e => e.type === 'dir').map(e => e.name.toLowerCase()));
+  const hasFile = (...names: string[]) => names.some(name => files.has(name));
+  const hasDir = (...names: string[]) => names.some(name => dirs.has(name));
+  const hasExtension = (...extensions: string[]) =>
+    Array.from(files).some(name => extensions.some(ext => name.endsWith(ext)));
+  const pkg = packageJson?.toLowerCase() || '';
+
+  return {
+    hasDocker: hasFile('dockerfile', 'docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'),
+    hasTerraform: hasExtension('.tf') || hasDir('terraform', 'infra', 'infrastructure') || language === 'HCL',
+    hasKubernetes: hasDir('k8s', 'kubernetes', 'helm', 'charts', 'manifests') || hasFile('chart.yaml', 'kustomization.yaml', 'skaffold.yaml'),
+    hasNotebooks: hasExtension('.ipynb') || hasDir('notebooks') || language === 'Jupyter Notebook',
+    hasPythonPackaging: hasFile('pyproject.toml', 'setup.py', 'setup.cfg'),
+    hasDatasets: hasDir('data', 'datasets', 'dataset') || hasExtension('.csv', '.parquet'),
+    hasA11yTooling: hasFile('.pa11yci', '.pa11yci.json') || A11Y_PACKAGES.some(name => pkg.includes(`"${name}`)),
+    hasMobileProject: hasDir('android', 'ios') || hasFile('pubspec.yaml', 'podfile', 'build.gradle.kts', 'androidmanifest.xml')
+      || hasExtension('.xcodeproj') || pkg.includes('"react-native"') || pkg.includes('"expo"'),
+    hasApiSpec: hasFile('openapi.yaml', 'openapi.yml', 'openapi.json', 'swagger.yaml', 'swagger.yml', 'swagger.json'),
+    hasMigrations: hasDir('migrations', 'prisma', 'alembic', 'db') || hasFile('alembic.ini', 'knexfile.js', 'schema.sql'),
+  };
+};
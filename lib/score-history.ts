@@ -0,0 +1,160 @@
+/**
+ * Score History - Snapshots and "What Changed"
+ *
+ * Quick wins only pay off if users can see their score move. Every full
+ * analysis stores a snapshot (score, dimensions, top suggestions, rubric
+ * version and a few facts per repo) in the shared cache store, and
+ * consecutive snapshots are diffed into what changed between them: new repos,
+ * new READMEs, new deploys, and score / dimension deltas.
+ *
+ * Snapshots are kept for CACHE_TTLS.history, newest MAX_SNAPSHOTS per user,
+ * in a store of their own so cached analyses and ETag bodies never evict them.
+ * The memory store still drops the least recently analyzed users beyond
+ * ANALYSIS_CACHE_HISTORY_MAX_ENTRIES and forgets everything on restart (use
+ * ANALYSIS_CACHE_STORE=file to keep history). A snapshot is only added once
+ * per GitHub data version, rubric version and role.
+ */
+
+import { CACHE_TTLS, getCacheStore } from './analysis-cache';
+import { GitHubAnalysisData } from './github-service';
+import { PortfolioScore, ProfileType } from './new-scoring-engine';
+
+/**
+ * Per-repo facts the diff looks at
+ */
+export interface RepoFacts {
+  name: string;
+  readme: boolean;
+  deployed: boolean;         // Homepage set or a live-demo link in the README
+  stars: number;
+}
+
+export interface ScoreSnapshot {
+  takenAt: string;           // When the GitHub data behind it was fetched
+  dataVersion: number;       // Data cache version (epoch ms) the score was computed from
+  rubricVersion: string;
+  role: string | null;       // Role track the total was scored against
+  profileType: ProfileType;
+  score: number;
+  dimensions: { name: string; score: number }[];
+  suggestions: string[];     // Top suggestion titles
+  repos: RepoFacts[];
+}
+
+/**
+ * What changed between two consecutive snapshots
+ */
+export interface SnapshotDiff {
+  from: string;              // takenAt of the older snapshot
+  to: string;                // takenAt of the newer snapshot
+  scoreDelta: number;
+  dimensions: { name: string; delta: number }[]; // Non-zero changes only
+  newRepos: string[];
+  removedRepos: string[];
+  newReadmes: string[];      // Existing repos that gained a README
+  newDeploys: string[];      // Existing repos that gained a homepage / demo link
+  resolvedSuggestions: string[];
+  rubricChanged: boolean;    // Scores came from different rubric versions
+}
+
+// Snapshots kept per user (oldest dropped first)
+export const MAX_SNAPSHOTS = 50;
+
+const historyKey = (username: string) => `history:${username.trim().toLowerCase()}`;
+
+// Last pending write per history key; record() is a read-modify-write, so
+// concurrent analyses of one user must queue or one snapshot is lost
+const writes = new Map<string, Promise<void>>();
+
+/**
+ * Changes from one snapshot to the next
+ */
+export const diffSnapshots = (previous: ScoreSnapshot, next: ScoreSnapshot): SnapshotDiff => {
+  const before = new Map(previous.repos.map(r => [r.name, r]));
+  const after = new Map(next.repos.map(r => [r.name, r]));
+  const kept = next.repos.filter(r => before.has(r.name));
+  const previousDimensions = new Map(previous.dimensions.map(d => [d.name, d.score]));
+
+  return {
+    from: previous.takenAt,
+    to: next.takenAt,
+    scoreDelta: next.score - previous.score,
+    dimensions: next.dimensions
+      .filter(d => previousDimensions.has(d.name))
+      .map(d => ({ name: d.name, delta: d.score - (previousDimensions.get(d.name) as number) }))
+      .filter(d => d.delta !== 0),
+    newRepos: next.repos.filter(r => !before.has(r.name)).map(r => r.name),
+    removedRepos: previous.repos.filter(r => !after.has(r.name)).map(r => r.name),
+    newReadmes: kept.filter(r => r.readme && !before.get(r.name)?.readme).map(r => r.name),
+    newDeploys: kept.filter(r => r.deployed && !before.get(r.name)?.deployed).map(r => r.name),
+    resolvedSuggestions: previous.suggestions.filter(s => !next.suggestions.includes(s)),
+    rubricChanged: previous.rubricVersion !== next.rubricVersion,
+  };
+};
+
+export class ScoreHistory {
+  /**
+   * Store a snapshot of this analysis. Never throws: history is a side
+   * feature and must not fail the analysis itself.
+   */
+  static record(data: GitHubAnalysisData, score: PortfolioScore, dataVersion: number): Promise<void> {
+    const key = historyKey(data.user.login);
+    const write = (writes.get(key) || Promise.resolve()).then(() => this.append(data, score, dataVersion));
+    writes.set(key, write);
+    return write.finally(() => {
+      if (writes.get(key) === write) writes.delete(key);
+    });
+  }
+
+  /**
+   * Add the snapshot to the stored list (only called from record's per-user queue)
+   */
+  private static async append(data: GitHubAnalysisData, score: PortfolioScore, dataVersion: number): Promise<void> {
+    try {
+      // Requests alternating between roles on the same data must not re-add snapshots
+      const snapshots = await this.list(data.user.login);
+      const recorded = snapshots.some(s =>
+        s.dataVersion === dataVersion &&
+        s.rubricVersion === score.rubricVersion &&
+        s.role === score.role
+      );
+      if (recorded) {
+        return;
+      }
+
+      const scorecards = new Map(score.repoScorecards.map(card => [card.repo, card]));
+      const snapshot: ScoreSnapshot = {
+        takenAt: new Date(dataVersion).toISOString(),
+        dataVersion,
+        rubricVersion: score.rubricVersion,
+        role: score.role,
+        profileType: score.profileType,
+        score: score.totalScore,
+        dimensions: score.dimensions.map(d => ({ name: d.name, score: d.score })),
+        suggestions: score.topSuggestions.map(s => s.title),
+        repos: data.repositories.map(repo => ({
+          name: repo.name,
+          readme: repo.has_readme,
+          deployed: (scorecards.get(repo.name)?.categories.find(c => c.id === 'demo')?.score || 0) > 0,
+          stars: repo.stars,
+        })),
+      };
+
+      await getCacheStore('history').set(
+        historyKey(data.user.login),
+        [...snapshots, snapshot].slice(-MAX_SNAPSHOTS),
+        CACHE_TTLS.history
+      );
+    } catch (error) {
+      console.warn('Failed to record score snapshot:', error);
+    }
+  }
+
+  /**
+   * Every stored snapshot for a user, oldest first
+   */
+  static async list(username: string): Promise<ScoreSnapshot[]> {
+    const entry = await getCacheStore('history').get<ScoreSnapshot[]>(historyKey(username));
+    return entry?.value || [];
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Score Simulator - What-If Projections
+ *
+ * Suggestion points are rubric estimates. The simulator applies hypothetical
+ * changes (add a README, set a homepage, add CI, pin repos) to a copy of the
+ * cached GitHub data and re-runs NewScoringEngine, so the projected total and
+ * per-dimension deltas are exactly what the engine would score.
+ *
+ * The projection is scored with the baseline's profile type: changes may
+ * shift profile detection, which would make dimension deltas incomparable.
+ */
+
+import { GitHubAnalysisData, Repository } from './github-service';
+import { NewScoringEngine, PortfolioScore } from './new-scoring-engine';
+import { analyzeReadme } from './readme-analyzer';
+import { getScoringRubric } from './scoring-rubric';
+
+export type SimulatedChange =
+  | { type: 'add-readme'; repo: string }    // README with title, description, installation and usage
+  | { type: 'set-homepage'; repo: string; url?: string }
+  | { type: 'add-ci'; repo: string }        // GitHub Actions workflow
+  | { type: 'pin'; repos: string[] };       // Replaces the pinned repos
+
+export const SIMULATED_CHANGE_TYPES: SimulatedChange['type'][] = ['add-readme', 'set-homepage', 'add-ci', 'pin'];
+
+// GitHub allows at most this many pinned repos
+export const MAX_PINNED_REPOS = 6;
+
+/**
+ * Current state of a repo the simulator can change
+ */
+export interface SimulatorRepo {
+  name: string;
+  hasReadme: boolean;        // A README beyond untouched boilerplate
+  hasHomepage: boolean;
+  hasCI: boolean;
+  pinned: boolean;
+  scored: boolean;           // Among the repos the engine scores (pinned first, then recent)
+}
+
+export interface SimulatedDimension {
+  name: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface Simulation {
+  profileType: PortfolioScore['profileType'];
+  role: string | null;
+  baseline: number;
+  projected: number;
+  delta: number;
+  dimensions: SimulatedDimension[];
+  applied: SimulatedChange[];
+  skipped: { change: SimulatedChange; reason: string }[]; // Unknown repos, README or CI already present
+  repos: SimulatorRepo[];    // State after the changes
+}
+
+/**
+ * README a simulated "add README" stands for: the sections a decent README
+ * has, without screenshots or a demo link (those are separate improvements)
+ */
+const simulatedReadme = (repo: Repository) => [
+  `# ${repo.name}`,
+  '',
+  '## About',
+  '',
+  repo.description || `What ${repo.name} does, who it is for and why it was built.`,
+  '',
+  '## Installation',
+  '',
+  '```bash',
+  `git clone <repository-url> && cd ${repo.name}`,
+  '```',
+  '',
+  '## Usage',
+  '',
+  'How to run the project, with an example.',
+  '',
+].join('\n');
+
+/**
+ * Parse an untrusted list of changes (e.g. a request body); returns the
+ * valid changes and a message per invalid entry
+ */
+export const parseChanges = (raw: unknown): { changes: SimulatedChange[]; errors: string[] } => {
+  const changes: SimulatedChange[] = [];
+  const errors: string[] = [];
+  if (!Array.isArray(raw)) {
+    return { changes, errors: ['"changes" must be an array'] };
+  }
+
+  raw.forEach((entry: any, i) => {
+    const type = entry?.type;
+    if (!SIMULATED_CHANGE_TYPES.includes(type)) {
+      errors.push(`changes[${i}]: unknown type "${type}"`);
+    } else if (type === 'pin') {
+      const repos = Array.isArray(entry.repos) ? entry.repos.filter((r: unknown): r is string => typeof r === 'string') : null;
+      if (!repos || repos.length > MAX_PINNED_REPOS) {
+        errors.push(`changes[${i}]: "repos" must list at most ${MAX_PINNED_REPOS} repo names`);
+      } else {
+        changes.push({ type, repos });
+      }
+    } else if (typeof entry.repo !== 'string' || !entry.repo) {
+      errors.push(`changes[${i}]: "repo" is required`);
+    } else if (type === 'set-homepage') {
+      changes.push({ type, repo: entry.repo, url: typeof entry.url === 'string' ? entry.url : undefined });
+    } else {
+      changes.push({ type, repo: entry.repo });
+    }
+  });
+
+  return { changes, errors };
+};
+
+/**
+ * Whether a repo's README would be replaced by a simulated one: it has none,
+ * or only untouched framework boilerplate
+ */
+const needsReadme = (repo: Repository) =>
+  !repo.has_readme || (!!repo.readme_content && !!analyzeReadme(repo.readme_content, getScoringRubric().lists).boilerplate);
+
+/**
+ * Copy of the data with the changes applied, in order. Changes naming unknown
+ * repos, a README for a repo that already has a real one and CI for a repo
+ * that already has it are skipped.
+ */
+export const applyChanges = (data: GitHubAnalysisData, changes: SimulatedChange[]) => {
+  const repositories = data.repositories.map(repo => ({ ...repo }));
+  const find = (name: string) => repositories.find(r => r.name.toLowerCase() === name.toLowerCase());
+  let pinnedRepos = data.pinnedRepos;
+  const applied: SimulatedChange[] = [];
+  const skipped: { change: SimulatedChange; reason: string }[] = [];
+
+  for (const change of changes) {
+    if (change.type === 'pin') {
+      const unknown = change.repos.filter(name => !find(name));
+      if (unknown.length > 0) {
+        skipped.push({ change, reason: `Unknown repos: ${unknown.join(', ')}` });
+      } else {
+        pinnedRepos = change.repos.map(name => (find(name) as Repository).name);
+        applied.push(change);
+      }
+      continue;
+    }
+
+    const repo = find(change.repo);
+    if (!repo) {
+      skipped.push({ change, reason: `Unknown repo "${change.repo}"` });
+    } else if (change.type === 'add-readme' && !needsReadme(repo)) {
+      skipped.push({ change, reason: `${repo.name} already has a README` });
+    } else if (change.type === 'add-readme') {
+      repo.has_readme = true;
+      repo.readme_content = simulatedReadme(repo);
+      repo.readme_length = repo.readme_content.length;
+      repo.readme_file = 'README.md';
+      repo.readme_format = 'markdown';
+      applied.push(change);
+    } else if (change.type === 'set-homepage') {
+      repo.homepage = change.url || `https://${repo.name.toLowerCase()}.vercel.app`;
+      applied.push(change);
+    } else if (repo.code_quality?.hasCI) {
+      skipped.push({ change, reason: `${repo.name} already has CI` });
+    } else {
+      const quality = repo.code_quality || {
+        hasCI: false, hasTests: false, hasTypeScript: false, hasLinting: false,
+        evidence: { hasCI: [], hasTests: [], hasTypeScript: [], hasLinting: [] },
+        ecosystems: [],
+      };
+      repo.code_quality = {
+        ...quality,
+        hasCI: true,
+        evidence: { ...quality.evidence, hasCI: ['.github/workflows/ci.yml'] },
+      };
+      applied.push(change);
+    }
+  }
+
+  return { data: { ...data, repositories, pinnedRepos }, applied, skipped };
+};
+
+/**
+ * Repos the simulator panel lists (original repos, pinned first)
+ */
+export const simulatorRepos = (data: GitHubAnalysisData): SimulatorRepo[] => {
+  const scored = new Set(NewScoringEngine.selectReposForScoring(data).map(r => r.name));
+  return data.repositories
+    .filter(repo => !repo.is_fork || data.pinnedRepos.includes(repo.name))
+    .map(repo => ({
+      name: repo.name,
+      hasReadme: !needsReadme(repo),
+      hasHomepage: !!repo.homepage,
+      hasCI: !!repo.code_quality?.hasCI,
+      pinned: data.pinnedRepos.includes(repo.name),
+      scored: scored.has(repo.name),
+    }))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+};
+
+/**
+ * Re-score the data with the changes applied and compare with the baseline
+ */
+export const simulate = (
+  data: GitHubAnalysisData,
+  baseline: PortfolioScore,
+  changes: SimulatedChange[]
+): Simulation => {
+  const { data: changed, applied, skipped } = applyChanges(data, changes);
+  const projected = NewScoringEngine.calculateScore(changed, baseline.role, baseline.profileType);
+  const before = new Map(baseline.dimensions.map(d => [d.name, d.score]));
+
+  return {
+    profileType: baseline.profileType,
+    role: baseline.role,
+    baseline: baseline.totalScore,
+    projected: projected.totalScore,
+    delta: projected.totalScore - baseline.totalScore,
+    dimensions: projected.dimensions.map(d => ({
+      name: d.name,
+      before: before.get(d.name) ?? 0,
+      after: d.score,
+      delta: d.score - (before.get(d.name) ?? 0),
+    })),
+    applied,
+    skipped,
+    repos: simulatorRepos(changed),
+  };
+};
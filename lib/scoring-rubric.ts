@@ -0,0 +1,424 @@
+/**
+ * Scoring Rubric - Declarative, Versioned Scoring Configuration
+ *
+ * Every number NewScoringEngine uses to turn metrics into points lives in a
+ * JSON rubric instead of code, so teams can tune the hiring bar without forking:
+ *
+ * - profiles:    dimension weights per ProfileType (each must sum to 100)
+ * - dimensions:  rules (ratio / count / tiers / condition) over named metrics,
+ *                suggestion templates and feedback templates ("{metric}" placeholders)
+ * - lists:       modern languages, framework topics, demo hosts, story keywords
+ * - penalties:   red flag penalties and the legend score floor
+ * - roles:       role tracks (frontend, backend, ...) with their own weights, an
+ *                extra "fit" dimension and the languages/topics/signals used to
+ *                suggest the best-fit role
+ *
+ * The default rubric ships as `scoring-rubric.json`; SCORING_RUBRIC_PATH points
+ * at a replacement. The rubric is validated once at startup (instrumentation.ts)
+ * and its `version` is stamped on every PortfolioScore.
+ */
+
+import { readFileSync } from 'fs';
+import defaultRubric from './scoring-rubric.json';
+import { ProfileType, DetailedSuggestion } from './new-scoring-engine';
+import { REPO_SIGNALS, RepoSignal } from './repo-signals';
+
+/**
+ * Metrics the engine computes for every analysis; rules may only reference these
+ */
+export const RUBRIC_METRICS = [
+  'scoredRepoCount',
+  'readmeCount', 'missingReadmeCount', 'readmeRatio',
+  // README analyzer (readme-analyzer.ts)
+  'readmeQualityRatio', 'boilerplateReadmeCount', 'missingSetupDocsCount', 'screenshotCount',
+  'organizedCount', 'missingOrganizedCount', 'organizedRatio',
+  'lintingCount', 'lintingRatio',
+  'demoCount', 'storyCount', 'storyRatio', 'completeRatio',
+  'daysSinceLastCommit', 'commitFrequency',
+  'ciCount', 'testsCount',
+  'languageCount', 'hasModernLanguage', 'frameworkRepoCount',
+  // Dependency manifests (tech-stack.ts)
+  'frameworkCount', 'testRunnerRepoCount', 'ormRepoCount', 'cloudSdkRepoCount',
+  'hasIssues', 'totalStars',
+  'topLanguages', 'primaryLanguage', 'topFrameworks',
+  // Role-track signals (repo-signals.ts)
+  'dockerRepoCount', 'terraformRepoCount', 'kubernetesRepoCount',
+  'notebookRepoCount', 'pythonPackageRepoCount', 'datasetRepoCount', 'pythonRepoCount',
+  'a11yRepoCount', 'mobileRepoCount', 'apiSpecRepoCount', 'migrationRepoCount',
+] as const;
+
+export type RubricMetric = typeof RUBRIC_METRICS[number];
+
+// Metric values; a metric is absent when it cannot be computed (e.g. no commits yet)
+export type RubricMetrics = Partial<Record<RubricMetric, number | string>>;
+
+export type RubricOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export interface RubricCondition {
+  metric: RubricMetric | 'score';   // `score` is only available to feedback
+  op: RubricOperator;
+  value: number;
+}
+
+export interface RubricTier {
+  op: RubricOperator;
+  value: number;
+  points: number;
+}
+
+export type RubricRule =
+  | { id: string; type: 'ratio'; metric: RubricMetric; points: number }
+  | { id: string; type: 'count'; metric: RubricMetric; pointsEach: number; max: number }
+  | { id: string; type: 'tiers'; metric: RubricMetric; tiers: RubricTier[]; otherwise?: number }
+  | { id: string; type: 'condition'; when: RubricCondition; points: number };
+
+export interface RubricSuggestion extends Omit<DetailedSuggestion, 'points' | 'check'> {
+  when: RubricCondition;
+  points: number;
+  pointsMetric?: RubricMetric;   // Multiply points by this metric (e.g. per missing README)
+}
+
+export interface RubricFeedback {
+  when?: RubricCondition;        // First matching entry wins; omit for the default
+  text: string;
+}
+
+export interface RubricDimension {
+  id: string;                    // Key used in `profiles` weights
+  name: string;
+  whyItMatters: string;
+  baseScore?: number;            // Starting points (default 0)
+  scale?: number;                // Multiplier applied to raw points (default 1)
+  legendOverride?: boolean;      // Legends get 100 and no suggestions here
+  rules: RubricRule[];
+  suggestions: RubricSuggestion[];
+  feedback: RubricFeedback[];
+}
+
+/**
+ * Role track, e.g. "devops": replaces the profile-type weights when selected
+ */
+export interface RubricRole {
+  id: string;                    // Value accepted by `?role=`
+  name: string;
+  description: string;
+  match: {                       // Best-fit detection
+    languages: string[];
+    topics: string[];
+    signals: RepoSignal[];
+  };
+  weights: Record<string, number>;   // Base dimension ids + this role's dimension id
+  dimension: RubricDimension;        // Role-specific "fit" dimension
+}
+
+export interface ScoringRubric {
+  version: string;
+  profiles: Record<ProfileType, Record<string, number>>;
+  lists: {
+    modernLanguages: string[];
+    frameworkTopics: string[];
+    demoHosts: string[];
+    storyKeywords: string[];
+  };
+  params: {
+    completeReadmeScore: number;   // README analyzer score (0-100) that counts as complete
+  };
+  redFlagPenalties: Record<'high' | 'medium' | 'low', number>;
+  legendScoreFloor: number;
+  dimensions: RubricDimension[];
+  roles: RubricRole[];
+}
+
+export class RubricValidationError extends Error {
+  constructor(public source: string, public errors: string[]) {
+    super(`Invalid scoring rubric (${source}):\n  - ${errors.join('\n  - ')}`);
+    this.name = 'RubricValidationError';
+  }
+}
+
+const PROFILE_TYPES: ProfileType[] = ['student', 'professional', 'open-source'];
+const OPERATORS: RubricOperator[] = ['lt', 'lte', 'gt', 'gte', 'eq', 'neq'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const PRIORITIES = ['critical', 'high', 'medium', 'low'];
+
+let rubric: ScoringRubric | null = null;
+
+/**
+ * Active rubric (SCORING_RUBRIC_PATH or the bundled default), validated on first use
+ */
+export const getScoringRubric = (): ScoringRubric => {
+  if (rubric) return rubric;
+
+  const path = process.env.SCORING_RUBRIC_PATH;
+  const source = path || 'scoring-rubric.json';
+  let raw: unknown = defaultRubric;
+
+  if (path) {
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error: any) {
+      throw new RubricValidationError(source, [`Could not read rubric: ${error.message}`]);
+    }
+  }
+
+  const errors = validateRubric(raw);
+  if (errors.length > 0) {
+    throw new RubricValidationError(source, errors);
+  }
+
+  rubric = raw as ScoringRubric;
+  return rubric;
+};
+
+/**
+ * Check a parsed rubric against the schema; returns every problem found
+ */
+export const validateRubric = (raw: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) return ['Rubric must be a JSON object'];
+
+  if (typeof raw.version !== 'string' || raw.version.trim().length === 0) {
+    errors.push('version must be a non-empty string');
+  }
+
+  const dimensions = Array.isArray(raw.dimensions) ? raw.dimensions : [];
+  if (dimensions.length === 0) errors.push('dimensions must be a non-empty array');
+
+  const dimensionIds = new Set<string>();
+  dimensions.forEach((dim: unknown, i: number) => {
+    const id = validateDimension(dim, `dimensions[${i}]`, errors);
+    if (!id) return;
+    if (dimensionIds.has(id)) errors.push(`dimensions[${i}].id "${id}" is duplicated`);
+    else dimensionIds.add(id);
+  });
+
+  // Weights: every profile covers every dimension and sums to 100
+  if (!isObject(raw.profiles)) {
+    errors.push('profiles must be an object');
+  } else {
+    PROFILE_TYPES.forEach((profile) => {
+      validateWeights((raw.profiles as Record<string, unknown>)[profile], dimensionIds, `profiles.${profile}`, errors);
+    });
+  }
+
+  // Roles: unique ids, match lists, a valid fit dimension and weights over base + fit dimensions
+  if (!Array.isArray(raw.roles)) {
+    errors.push('roles must be an array');
+  } else {
+    const roleIds = new Set<string>();
+    raw.roles.forEach((role: unknown, i: number) => {
+      const path = `roles[${i}]`;
+      if (!isObject(role)) return errors.push(`${path} must be an object`);
+
+      if (typeof role.id !== 'string' || !/^[a-z0-9-]+$/.test(role.id)) {
+        errors.push(`${path}.id must be a lowercase slug`);
+      } else if (roleIds.has(role.id)) {
+        errors.push(`${path}.id "${role.id}" is duplicated`);
+      } else {
+        roleIds.add(role.id);
+      }
+      requireString(role, 'name', path, errors);
+      requireString(role, 'description', path, errors);
+
+      if (!isObject(role.match)) {
+        errors.push(`${path}.match must be an object`);
+      } else {
+        ['languages', 'topics', 'signals'].forEach((key) => {
+          const list = (role.match as Record<string, unknown>)[key];
+          if (!Array.isArray(list) || !list.every((item) => typeof item === 'string')) {
+            errors.push(`${path}.match.${key} must be an array of strings`);
+          }
+        });
+        (Array.isArray(role.match.signals) ? role.match.signals : []).forEach((signal: unknown) => {
+          if (!REPO_SIGNALS.includes(signal as RepoSignal)) {
+            errors.push(`${path}.match.signals contains unknown signal ${JSON.stringify(signal)}`);
+          }
+        });
+      }
+
+      const fitId = validateDimension(role.dimension, `${path}.dimension`, errors);
+      if (fitId && dimensionIds.has(fitId)) {
+        errors.push(`${path}.dimension.id "${fitId}" clashes with a base dimension`);
+      }
+      validateWeights(role.weights, new Set([...dimensionIds, ...(fitId ? [fitId] : [])]), `${path}.weights`, errors);
+    });
+  }
+
+  if (!isObject(raw.lists)) {
+    errors.push('lists must be an object');
+  } else {
+    ['modernLanguages', 'frameworkTopics', 'demoHosts', 'storyKeywords'].forEach((key) => {
+      const list = (raw.lists as Record<string, unknown>)[key];
+      if (!Array.isArray(list) || !list.every((item) => typeof item === 'string')) {
+        errors.push(`lists.${key} must be an array of strings`);
+      }
+    });
+  }
+
+  if (!isObject(raw.params) || typeof raw.params.completeReadmeScore !== 'number') {
+    errors.push('params.completeReadmeScore must be a number');
+  }
+
+  if (!isObject(raw.redFlagPenalties)) {
+    errors.push('redFlagPenalties must be an object');
+  } else {
+    ['high', 'medium', 'low'].forEach((severity) => {
+      if (typeof (raw.redFlagPenalties as Record<string, unknown>)[severity] !== 'number') {
+        errors.push(`redFlagPenalties.${severity} must be a number`);
+      }
+    });
+  }
+
+  if (typeof raw.legendScoreFloor !== 'number' || raw.legendScoreFloor < 0 || raw.legendScoreFloor > 100) {
+    errors.push('legendScoreFloor must be a number between 0 and 100');
+  }
+
+  return errors;
+};
+
+/**
+ * Validate one dimension; returns its id when it has a usable one
+ */
+const validateDimension = (dim: unknown, path: string, errors: string[]): string | null => {
+  if (!isObject(dim)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  requireString(dim, 'name', path, errors);
+  requireString(dim, 'whyItMatters', path, errors);
+  optionalNumber(dim, 'baseScore', path, errors);
+  optionalNumber(dim, 'scale', path, errors);
+
+  requireArray(dim, 'rules', path, errors).forEach((rule, j) => validateRule(rule, `${path}.rules[${j}]`, errors));
+  requireArray(dim, 'suggestions', path, errors).forEach((s, j) => validateSuggestion(s, `${path}.suggestions[${j}]`, errors));
+
+  const feedback = requireArray(dim, 'feedback', path, errors);
+  feedback.forEach((f, j) => {
+    const fPath = `${path}.feedback[${j}]`;
+    if (!isObject(f)) return errors.push(`${fPath} must be an object`);
+    requireString(f, 'text', fPath, errors);
+    if (f.when !== undefined) validateCondition(f.when, `${fPath}.when`, errors, true);
+  });
+  const fallback = feedback[feedback.length - 1];
+  if (isObject(fallback) && fallback.when !== undefined) {
+    errors.push(`${path}.feedback must end with a default entry (no "when")`);
+  }
+
+  if (typeof dim.id !== 'string' || !dim.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+    return null;
+  }
+  return dim.id;
+};
+
+/**
+ * Weights must cover exactly the given dimensions and sum to 100
+ */
+const validateWeights = (weights: unknown, dimensionIds: Set<string>, path: string, errors: string[]) => {
+  if (!isObject(weights)) return errors.push(`${path} must be an object`);
+
+  dimensionIds.forEach((id) => {
+    if (typeof weights[id] !== 'number' || weights[id] < 0) {
+      errors.push(`${path}.${id} must be a non-negative number`);
+    }
+  });
+  Object.keys(weights).forEach((id) => {
+    if (!dimensionIds.has(id)) errors.push(`${path}.${id} does not match any dimension`);
+  });
+
+  const total = Object.values(weights).reduce((sum: number, w) => sum + (typeof w === 'number' ? w : 0), 0);
+  if (total !== 100) errors.push(`${path} weights must sum to 100 (got ${total})`);
+};
+
+const validateRule = (rule: unknown, path: string, errors: string[]) => {
+  if (!isObject(rule)) return errors.push(`${path} must be an object`);
+  requireString(rule, 'id', path, errors);
+
+  switch (rule.type) {
+    case 'ratio':
+      validateMetric(rule.metric, `${path}.metric`, errors);
+      requireNumber(rule, 'points', path, errors);
+      break;
+    case 'count':
+      validateMetric(rule.metric, `${path}.metric`, errors);
+      requireNumber(rule, 'pointsEach', path, errors);
+      requireNumber(rule, 'max', path, errors);
+      break;
+    case 'tiers':
+      validateMetric(rule.metric, `${path}.metric`, errors);
+      optionalNumber(rule, 'otherwise', path, errors);
+      requireArray(rule, 'tiers', path, errors).forEach((tier, i) => {
+        const tPath = `${path}.tiers[${i}]`;
+        if (!isObject(tier)) return errors.push(`${tPath} must be an object`);
+        validateOperator(tier.op, `${tPath}.op`, errors);
+        requireNumber(tier, 'value', tPath, errors);
+        requireNumber(tier, 'points', tPath, errors);
+      });
+      break;
+    case 'condition':
+      validateCondition(rule.when, `${path}.when`, errors, false);
+      requireNumber(rule, 'points', path, errors);
+      break;
+    default:
+      errors.push(`${path}.type must be one of ratio|count|tiers|condition (got ${JSON.stringify(rule.type)})`);
+  }
+};
+
+const validateSuggestion = (suggestion: unknown, path: string, errors: string[]) => {
+  if (!isObject(suggestion)) return errors.push(`${path} must be an object`);
+  ['id', 'title', 'category', 'timeEstimate'].forEach((key) => requireString(suggestion, key, path, errors));
+  requireNumber(suggestion, 'points', path, errors);
+  validateCondition(suggestion.when, `${path}.when`, errors, false);
+
+  if (suggestion.pointsMetric !== undefined) validateMetric(suggestion.pointsMetric, `${path}.pointsMetric`, errors);
+  if (!DIFFICULTIES.includes(suggestion.difficulty)) errors.push(`${path}.difficulty must be one of ${DIFFICULTIES.join('|')}`);
+  if (!PRIORITIES.includes(suggestion.priority)) errors.push(`${path}.priority must be one of ${PRIORITIES.join('|')}`);
+};
+
+const validateCondition = (condition: unknown, path: string, errors: string[], allowScore: boolean) => {
+  if (!isObject(condition)) return errors.push(`${path} must be an object`);
+  if (!(allowScore && condition.metric === 'score')) validateMetric(condition.metric, `${path}.metric`, errors);
+  validateOperator(condition.op, `${path}.op`, errors);
+  requireNumber(condition, 'value', path, errors);
+};
+
+const validateMetric = (metric: unknown, path: string, errors: string[]) => {
+  if (!RUBRIC_METRICS.includes(metric as RubricMetric)) {
+    errors.push(`${path} must be a known metric (got ${JSON.stringify(metric)})`);
+  }
+};
+
+const validateOperator = (op: unknown, path: string, errors: string[]) => {
+  if (!OPERATORS.includes(op as RubricOperator)) {
+    errors.push(`${path} must be one of ${OPERATORS.join('|')} (got ${JSON.stringify(op)})`);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (obj: Record<string, any>, key: string, path: string, errors: string[]) => {
+  if (typeof obj[key] !== 'string' || obj[key].trim().length === 0) {
+    errors.push(`${path}.${key} must be a non-empty string`);
+  }
+};
+
+const requireNumber = (obj: Record<string, any>, key: string, path: string, errors: string[]) => {
+  if (typeof obj[key] !== 'number' || !Number.isFinite(obj[key])) {
+    errors.push(`${path}.${key} must be a number`);
+  }
+};
+
+const optionalNumber = (obj: Record<string, any>, key: string, path: string, errors: string[]) => {
+  if (obj[key] !== undefined) requireNumber(obj, key, path, errors);
+};
+
+const requireArray = (obj: Record<string, any>, key: string, path: string, errors: string[]): unknown[] => {
+  if (!Array.isArray(obj[key])) {
+    errors.push(`${path}.${key} must be an array`);
+    return [];
+  }
+  return obj[key];
+};
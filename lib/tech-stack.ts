@@ -0,0 +1,342 @@
+/**
+ * Tech Stack - Dependency Manifest Parsing
+ *
+ * Repo topics are optional and often missing, so frameworks are read from the
+ * dependency manifests instead. Both GitHub services fetch the MANIFEST_FILES
+ * present at a detailed repo's root and hand their text to `detectTechStack`,
+ * which parses the dependency names and maps them onto a normalized catalog:
+ *
+ * - framework:  Next.js, Django, Spring Boot, Axum, Rails, ...
+ * - testRunner: Jest, Vitest, pytest, JUnit, RSpec, ...
+ * - orm:        Prisma, SQLAlchemy, GORM, Diesel, Hibernate, ...
+ * - cloudSdk:   AWS, Google Cloud, Azure, Firebase, Supabase SDKs
+ *
+ * `summarizeTechStack` folds the per-repo stacks into a graph of technologies
+ * and the repos that use them for the results page and the AI prompt.
+ */
+
+export const MANIFEST_FILES = [
+  'package.json',
+  'requirements.txt', 'pyproject.toml',
+  'go.mod',
+  'Cargo.toml',
+  'pom.xml', 'build.gradle', 'build.gradle.kts',
+  'Gemfile',
+] as const;
+
+export type ManifestFile = typeof MANIFEST_FILES[number];
+
+export type TechCategory = 'framework' | 'testRunner' | 'orm' | 'cloudSdk';
+
+export interface TechStackItem {
+  name: string;              // Normalized name, e.g. "Next.js"
+  category: TechCategory;
+  ecosystem: string;         // "JavaScript", "Python", ...
+  source: ManifestFile;      // Manifest it was found in
+}
+
+export interface TechStack {
+  manifests: ManifestFile[]; // Manifests that were parsed
+  dependencyCount: number;   // Distinct dependencies across manifests
+  items: TechStackItem[];
+}
+
+/**
+ * Portfolio-wide tech-stack graph: technology nodes linked to the repos using them
+ */
+export interface TechStackSummary {
+  nodes: { name: string; category: TechCategory; ecosystem: string; repos: string[] }[];
+  byCategory: Record<TechCategory, string[]>;   // Names, most used first
+}
+
+interface CatalogEntry {
+  name: string;
+  category: TechCategory;
+  ecosystem: string;
+  match: RegExp;             // Tested against normalized (lowercase) dependency names
+}
+
+const entry = (ecosystem: string, category: TechCategory, name: string, match: RegExp): CatalogEntry =>
+  ({ name, category, ecosystem, match });
+
+/**
+ * Normalized catalog, first match per dependency wins
+ */
+const TECH_CATALOG: CatalogEntry[] = [
+  // JavaScript / TypeScript
+  entry('JavaScript', 'framework', 'Next.js', /^next$/),
+  entry('JavaScript', 'framework', 'Nuxt', /^nuxt3?$/),
+  entry('JavaScript', 'framework', 'Remix', /^@remix-run\/(react|node)$/),
+  entry('JavaScript', 'framework', 'SvelteKit', /^@sveltejs\/kit$/),
+  entry('JavaScript', 'framework', 'Astro', /^astro$/),
+  entry('JavaScript', 'framework', 'Gatsby', /^gatsby$/),
+  entry('JavaScript', 'framework', 'React Native', /^react-native$/),
+  entry('JavaScript', 'framework', 'Expo', /^expo$/),
+  entry('JavaScript', 'framework', 'React', /^react$/),
+  entry('JavaScript', 'framework', 'Vue', /^vue$/),
+  entry('JavaScript', 'framework', 'Angular', /^@angular\/core$/),
+  entry('JavaScript', 'framework', 'Svelte', /^svelte$/),
+  entry('JavaScript', 'framework', 'SolidJS', /^solid-js$/),
+  entry('JavaScript', 'framework', 'Electron', /^electron$/),
+  entry('JavaScript', 'framework', 'Express', /^express$/),
+  entry('JavaScript', 'framework', 'Fastify', /^fastify$/),
+  entry('JavaScript', 'framework', 'NestJS', /^@nestjs\/core$/),
+  entry('JavaScript', 'framework', 'Koa', /^koa$/),
+  entry('JavaScript', 'framework', 'Hono', /^hono$/),
+  entry('JavaScript', 'testRunner', 'Jest', /^jest$/),
+  entry('JavaScript', 'testRunner', 'Vitest', /^vitest$/),
+  entry('JavaScript', 'testRunner', 'Mocha', /^mocha$/),
+  entry('JavaScript', 'testRunner', 'Playwright', /^@playwright\/test$|^playwright$/),
+  entry('JavaScript', 'testRunner', 'Cypress', /^cypress$/),
+  entry('JavaScript', 'testRunner', 'AVA', /^ava$/),
+  entry('JavaScript', 'testRunner', 'Jasmine', /^jasmine(-core)?$/),
+  entry('JavaScript', 'orm', 'Prisma', /^(@prisma\/client|prisma)$/),
+  entry('JavaScript', 'orm', 'Drizzle', /^drizzle-orm$/),
+  entry('JavaScript', 'orm', 'TypeORM', /^typeorm$/),
+  entry('JavaScript', 'orm', 'Sequelize', /^sequelize$/),
+  entry('JavaScript', 'orm', 'Mongoose', /^mongoose$/),
+  entry('JavaScript', 'orm', 'Knex', /^knex$/),
+  entry('JavaScript', 'orm', 'MikroORM', /^@mikro-orm\/core$/),
+  entry('JavaScript', 'cloudSdk', 'AWS SDK', /^(aws-sdk|@aws-sdk\/.+|aws-cdk-lib)$/),
+  entry('JavaScript', 'cloudSdk', 'Google Cloud SDK', /^@google-cloud\/.+$/),
+  entry('JavaScript', 'cloudSdk', 'Azure SDK', /^@azure\/.+$/),
+  entry('JavaScript', 'cloudSdk', 'Firebase', /^firebase(-admin)?$/),
+  entry('JavaScript', 'cloudSdk', 'Supabase', /^@supabase\/supabase-js$/),
+
+  // Python
+  entry('Python', 'framework', 'Django', /^django$/),
+  entry('Python', 'framework', 'Flask', /^flask$/),
+  entry('Python', 'framework', 'FastAPI', /^fastapi$/),
+  entry('Python', 'framework', 'Streamlit', /^streamlit$/),
+  entry('Python', 'framework', 'PyTorch', /^torch$/),
+  entry('Python', 'framework', 'TensorFlow', /^tensorflow(-cpu|-gpu)?$/),
+  entry('Python', 'framework', 'scikit-learn', /^scikit-learn$/),
+  entry('Python', 'testRunner', 'pytest', /^pytest$/),
+  entry('Python', 'testRunner', 'Hypothesis', /^hypothesis$/),
+  entry('Python', 'testRunner', 'nose2', /^nose2?$/),
+  entry('Python', 'orm', 'SQLAlchemy', /^(sqlalchemy|flask-sqlalchemy)$/),
+  entry('Python', 'orm', 'SQLModel', /^sqlmodel$/),
+  entry('Python', 'orm', 'Peewee', /^peewee$/),
+  entry('Python', 'orm', 'Tortoise ORM', /^tortoise-orm$/),
+  entry('Python', 'orm', 'MongoEngine', /^mongoengine$/),
+  entry('Python', 'cloudSdk', 'AWS SDK', /^(boto3|botocore|aws-cdk-lib)$/),
+  entry('Python', 'cloudSdk', 'Google Cloud SDK', /^google-cloud-.+$/),
+  entry('Python', 'cloudSdk', 'Azure SDK', /^azure-.+$/),
+  entry('Python', 'cloudSdk', 'Firebase', /^firebase-admin$/),
+
+  // Go
+  entry('Go', 'framework', 'Gin', /^github\.com\/gin-gonic\/gin$/),
+  entry('Go', 'framework', 'Echo', /^github\.com\/labstack\/echo(\/v\d+)?$/),
+  entry('Go', 'framework', 'Fiber', /^github\.com\/gofiber\/fiber(\/v\d+)?$/),
+  entry('Go', 'framework', 'Chi', /^github\.com\/go-chi\/chi(\/v\d+)?$/),
+  entry('Go', 'testRunner', 'Testify', /^github\.com\/stretchr\/testify$/),
+  entry('Go', 'testRunner', 'Ginkgo', /^github\.com\/onsi\/ginkgo(\/v\d+)?$/),
+  entry('Go', 'orm', 'GORM', /^gorm\.io\/gorm$/),
+  entry('Go', 'orm', 'Ent', /^entgo\.io\/ent$/),
+  entry('Go', 'orm', 'sqlx', /^github\.com\/jmoiron\/sqlx$/),
+  entry('Go', 'cloudSdk', 'AWS SDK', /^github\.com\/aws\/aws-sdk-go(-v2)?(\/.+)?$/),
+  entry('Go', 'cloudSdk', 'Google Cloud SDK', /^cloud\.google\.com\/go(\/.+)?$/),
+  entry('Go', 'cloudSdk', 'Azure SDK', /^github\.com\/azure\/azure-sdk-for-go(\/.+)?$/),
+
+  // Rust
+  entry('Rust', 'framework', 'Actix Web', /^actix-web$/),
+  entry('Rust', 'framework', 'Axum', /^axum$/),
+  entry('Rust', 'framework', 'Rocket', /^rocket$/),
+  entry('Rust', 'framework', 'Warp', /^warp$/),
+  entry('Rust', 'framework', 'Tauri', /^tauri$/),
+  entry('Rust', 'framework', 'Bevy', /^bevy$/),
+  entry('Rust', 'framework', 'Leptos', /^leptos$/),
+  entry('Rust', 'framework', 'Yew', /^yew$/),
+  entry('Rust', 'testRunner', 'Criterion', /^criterion$/),
+  entry('Rust', 'testRunner', 'proptest', /^proptest$/),
+  entry('Rust', 'orm', 'Diesel', /^diesel$/),
+  entry('Rust', 'orm', 'SeaORM', /^sea-orm$/),
+  entry('Rust', 'orm', 'SQLx', /^sqlx$/),
+  entry('Rust', 'cloudSdk', 'AWS SDK', /^aws-sdk-.+$|^aws-config$/),
+
+  // Java / Kotlin (group:artifact)
+  entry('Java/Kotlin', 'framework', 'Spring Boot', /^org\.springframework\.boot(:.+)?$/),
+  entry('Java/Kotlin', 'framework', 'Quarkus', /^io\.quarkus(:.+)?$/),
+  entry('Java/Kotlin', 'framework', 'Micronaut', /^io\.micronaut(\.[\w-]+)?(:.+)?$/),
+  entry('Java/Kotlin', 'framework', 'Ktor', /^io\.ktor(\.[\w-]+)?(:.+)?$/),
+  entry('Java/Kotlin', 'framework', 'Android Jetpack', /^androidx\.[\w.-]+(:.+)?$/),
+  entry('Java/Kotlin', 'testRunner', 'JUnit', /^(org\.junit(\.[\w-]+)?|junit)(:.+)?$/),
+  entry('Java/Kotlin', 'testRunner', 'TestNG', /^org\.testng(:.+)?$/),
+  entry('Java/Kotlin', 'testRunner', 'Kotest', /^io\.kotest(:.+)?$/),
+  entry('Java/Kotlin', 'orm', 'Hibernate', /^org\.hibernate(\.[\w-]+)?(:.+)?$/),
+  entry('Java/Kotlin', 'orm', 'Spring Data JPA', /:spring-boot-starter-data-jpa$/),
+  entry('Java/Kotlin', 'orm', 'Exposed', /^org\.jetbrains\.exposed(:.+)?$/),
+  entry('Java/Kotlin', 'cloudSdk', 'AWS SDK', /^(com\.amazonaws|software\.amazon\.awssdk)(:.+)?$/),
+  entry('Java/Kotlin', 'cloudSdk', 'Google Cloud SDK', /^com\.google\.cloud(:.+)?$/),
+  entry('Java/Kotlin', 'cloudSdk', 'Azure SDK', /^com\.azure(:.+)?$/),
+  entry('Java/Kotlin', 'cloudSdk', 'Firebase', /^com\.google\.firebase(:.+)?$/),
+
+  // Ruby
+  entry('Ruby', 'framework', 'Rails', /^rails$/),
+  entry('Ruby', 'framework', 'Sinatra', /^sinatra$/),
+  entry('Ruby', 'framework', 'Hanami', /^hanami$/),
+  entry('Ruby', 'testRunner', 'RSpec', /^rspec(-rails)?$/),
+  entry('Ruby', 'testRunner', 'Minitest', /^minitest$/),
+  entry('Ruby', 'orm', 'Active Record', /^activerecord$/),
+  entry('Ruby', 'orm', 'Sequel', /^sequel$/),
+  entry('Ruby', 'cloudSdk', 'AWS SDK', /^aws-sdk(-.+)?$/),
+  entry('Ruby', 'cloudSdk', 'Google Cloud SDK', /^google-cloud-.+$/),
+];
+
+const CATALOG_ECOSYSTEMS: Record<ManifestFile, string> = {
+  'package.json': 'JavaScript',
+  'requirements.txt': 'Python',
+  'pyproject.toml': 'Python',
+  'go.mod': 'Go',
+  'Cargo.toml': 'Rust',
+  'pom.xml': 'Java/Kotlin',
+  'build.gradle': 'Java/Kotlin',
+  'build.gradle.kts': 'Java/Kotlin',
+  'Gemfile': 'Ruby',
+};
+
+// PEP 503 name normalization, minus extras and version specifiers
+const pythonName = (requirement: string) =>
+  requirement.trim().split(/[\s<>=!~;[(@]/)[0].toLowerCase().replace(/[-_.]+/g, '-');
+
+/**
+ * Lines of each `[section]` of a TOML file (no full TOML parser needed for
+ * dependency names)
+ */
+const tomlSections = (text: string): Map<string, string[]> => {
+  const sections = new Map<string, string[]>();
+  let current = '';
+  text.split('\n').forEach(raw => {
+    const line = raw.replace(/\s+#.*$/, '').trim();
+    const header = line.match(/^\[+\s*([^\]]+?)\s*\]+$/);
+    if (header) {
+      current = header[1];
+      if (!sections.has(current)) sections.set(current, []);
+    } else if (line && !line.startsWith('#')) {
+      sections.set(current, [...(sections.get(current) || []), line]);
+    }
+  });
+  return sections;
+};
+
+// Quoted strings of a TOML array value (`key = [ "a", "b" ]`, possibly multi-line)
+const tomlArray = (lines: string[], key: string): string[] => {
+  const start = lines.findIndex(line => new RegExp(`^"?${key}"?\\s*=\\s*\\[`).test(line));
+  if (start === -1) return [];
+  const values: string[] = [];
+  for (let i = start; i < lines.length; i++) {
+    const line = i === start ? lines[i].replace(/^[^=]*=\s*\[/, '') : lines[i];
+    values.push(...Array.from(line.matchAll(/"([^"]+)"|'([^']+)'/g)).map(m => m[1] || m[2]));
+    // Closing bracket outside a quoted string ("pkg[extra]" stays open)
+    if (line.replace(/"[^"]*"|'[^']*'/g, '').includes(']')) break;
+  }
+  return values;
+};
+
+// Keys of a TOML table (`name = "1.0"` / `name = { ... }`)
+const tomlKeys = (lines: string[] = []): string[] =>
+  lines.map(line => line.match(/^"?([\w.-]+)"?\s*=/)?.[1]).filter((key): key is string => !!key);
+
+/**
+ * Dependency names declared in one manifest (lowercase)
+ */
+export const parseManifest = (file: ManifestFile, text: string): string[] => {
+  switch (file) {
+    case 'package.json': {
+      try {
+        const pkg = JSON.parse(text);
+        return ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']
+          .flatMap(field => Object.keys(pkg?.[field] || {}))
+          .map(name => name.toLowerCase());
+      } catch {
+        return [];
+      }
+    }
+    case 'requirements.txt':
+      return text.split('\n')
+        .map(line => line.replace(/#.*$/, '').trim())
+        .filter(line => line && !line.startsWith('-') && !line.includes('://'))
+        .map(pythonName);
+    case 'pyproject.toml': {
+      const sections = tomlSections(text);
+      const pep621 = [
+        ...tomlArray(sections.get('project') || [], 'dependencies'),
+        ...Array.from(sections.get('project.optional-dependencies') || []).flatMap(line =>
+          Array.from(line.matchAll(/"([^"]+)"/g)).map(m => m[1])
+        ),
+      ];
+      const poetry = Array.from(sections.entries())
+        .filter(([name]) => /^tool\.poetry(\.group\.[\w-]+)?\.(dev-)?dependencies$/.test(name))
+        .flatMap(([, lines]) => tomlKeys(lines))
+        .filter(name => name !== 'python');
+      return [...pep621, ...poetry].map(pythonName);
+    }
+    case 'go.mod':
+      return Array.from(text.matchAll(/^\s*(?:require\s+)?([a-z0-9.-]+\.[a-z]{2,}\/[^\s]+)\s+v[\d.]+/gim))
+        .map(m => m[1].toLowerCase());
+    case 'Cargo.toml': {
+      const sections = tomlSections(text);
+      return Array.from(sections.entries()).flatMap(([name, lines]) => {
+        const table = name.match(/^(?:target\..+\.)?(dev-|build-)?dependencies(?:\.([\w-]+))?$/);
+        if (!table) return [];
+        return table[2] ? [table[2]] : tomlKeys(lines);
+      }).map(name => name.toLowerCase());
+    }
+    case 'pom.xml':
+      return Array.from(text.matchAll(/<(?:dependency|plugin|parent)>[\s\S]*?<groupId>\s*([^<\s]+)\s*<\/groupId>\s*<artifactId>\s*([^<\s]+)\s*<\/artifactId>/g))
+        .map(m => `${m[1]}:${m[2]}`.toLowerCase());
+    case 'build.gradle':
+    case 'build.gradle.kts': {
+      const coordinates = Array.from(text.matchAll(/^\s*\w*(?:implementation|api|compileOnly|runtimeOnly|kapt|ksp)\w*\s*\(?\s*(?:platform\()?["']([\w.-]+:[\w.-]+)(?::[^"']*)?["']/gim))
+        .map(m => m[1]);
+      const plugins = Array.from(text.matchAll(/^\s*id\s*\(?\s*["']([\w.-]+)["']/gm)).map(m => m[1]);
+      return [...coordinates, ...plugins].map(name => name.toLowerCase());
+    }
+    case 'Gemfile':
+      return Array.from(text.matchAll(/^\s*gem\s+["']([\w.-]+)["']/gm)).map(m => m[1].toLowerCase());
+    default:
+      return [];
+  }
+};
+
+/**
+ * Parse every fetched manifest and map its dependencies onto the catalog
+ */
+export const detectTechStack = (manifests: Partial<Record<ManifestFile, string>>): TechStack => {
+  const dependencies = new Set<string>();
+  const items: TechStackItem[] = [];
+  const files = MANIFEST_FILES.filter(file => typeof manifests[file] === 'string');
+
+  files.forEach(file => {
+    const ecosystem = CATALOG_ECOSYSTEMS[file];
+    parseManifest(file, manifests[file] as string).forEach(dependency => {
+      dependencies.add(dependency);
+      const match = TECH_CATALOG.find(c => c.ecosystem === ecosystem && c.match.test(dependency));
+      if (match && !items.some(item => item.name === match.name && item.ecosystem === match.ecosystem)) {
+        items.push({ name: match.name, category: match.category, ecosystem: match.ecosystem, source: file });
+      }
+    });
+  });
+
+  return { manifests: files, dependencyCount: dependencies.size, items };
+};
+
+/**
+ * Fold per-repo stacks into the portfolio graph
+ */
+export const summarizeTechStack = (repos: { name: string; tech_stack?: TechStack }[]): TechStackSummary => {
+  const nodes = new Map<string, TechStackSummary['nodes'][number]>();
+  repos.forEach(repo => {
+    repo.tech_stack?.items.forEach(item => {
+      const node = nodes.get(item.name) || { name: item.name, category: item.category, ecosystem: item.ecosystem, repos: [] };
+      if (!node.repos.includes(repo.name)) node.repos.push(repo.name);
+      nodes.set(item.name, node);
+    });
+  });
+
+  const sorted = Array.from(nodes.values()).sort((a, b) => b.repos.length - a.repos.length || a.name.localeCompare(b.name));
+  const byCategory: Record<TechCategory, string[]> = { framework: [], testRunner: [], orm: [], cloudSdk: [] };
+  sorted.forEach(node => byCategory[node.category].push(node.name));
+
+  return { nodes: sorted, byCategory };
+};
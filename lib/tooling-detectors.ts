@@ -0,0 +1,136 @@
+/**
+ * Tooling Detectors - Code Quality From a Repository's File Tree
+ *
+ * Both GitHub services fetch each detailed repo's file tree once (root plus
+ * TREE_DEPTH - 1 levels) and hand the paths to `detectCodeQuality`, which runs
+ * a registry of detectors across ecosystems (JS/TS, Python, Go, Rust,
+ * Java/Kotlin, C#). Every detection records the paths that triggered it so the
+ * repo page can show *why* a repo counts as tested or linted.
+ */
+
+export interface TreeEntry {
+  path: string;              // Relative to the repo root, e.g. "src/app.test.ts"
+  type: 'file' | 'dir';
+}
+
+export type CodeQualityCheck = 'hasCI' | 'hasTests' | 'hasTypeScript' | 'hasLinting';
+
+export interface CodeQuality {
+  hasCI: boolean;            // Has CI/CD workflows
+  hasTests: boolean;         // Has test files, directories or runner config
+  hasTypeScript: boolean;    // Uses TypeScript
+  hasLinting: boolean;       // Has linting / formatting config
+  evidence: Record<CodeQualityCheck, string[]>;   // Paths that triggered each check
+  ecosystems: string[];      // Detected from manifests, e.g. ["JavaScript", "Rust"]
+}
+
+// Levels of the tree inspected: root, its children and grandchildren
+export const TREE_DEPTH = 3;
+
+// Evidence paths kept per check
+const MAX_EVIDENCE = 5;
+
+interface ToolingDetector {
+  id: string;
+  check: CodeQualityCheck;
+  ecosystem: string;         // "any" for cross-ecosystem tools
+  type: TreeEntry['type'];
+  pattern: RegExp;           // Tested against the full path
+}
+
+const file = (id: string, check: CodeQualityCheck, ecosystem: string, pattern: RegExp): ToolingDetector =>
+  ({ id, check, ecosystem, type: 'file', pattern });
+const dir = (id: string, check: CodeQualityCheck, ecosystem: string, pattern: RegExp): ToolingDetector =>
+  ({ id, check, ecosystem, type: 'dir', pattern });
+
+/**
+ * Detector registry
+ */
+export const TOOLING_DETECTORS: ToolingDetector[] = [
+  // CI
+  file('github-actions', 'hasCI', 'any', /^\.github\/workflows\/[^/]+\.ya?ml$/),
+  file('gitlab-ci', 'hasCI', 'any', /^\.gitlab-ci\.ya?ml$/),
+  file('circleci', 'hasCI', 'any', /^\.circleci\/config\.ya?ml$/),
+  file('travis', 'hasCI', 'any', /^\.travis\.ya?ml$/),
+  file('azure-pipelines', 'hasCI', 'any', /^azure-pipelines\.ya?ml$/),
+  file('jenkins', 'hasCI', 'any', /^Jenkinsfile$/),
+  file('bitbucket-pipelines', 'hasCI', 'any', /^bitbucket-pipelines\.ya?ml$/),
+  file('drone', 'hasCI', 'any', /^\.drone\.ya?ml$/),
+
+  // Tests
+  dir('test-dir', 'hasTests', 'any', /(^|\/)(tests?|__tests__|spec|specs|e2e)$/),
+  file('js-test-file', 'hasTests', 'JavaScript', /\.(test|spec)\.[cm]?[jt]sx?$/),
+  file('js-test-runner', 'hasTests', 'JavaScript', /^(jest|vitest|playwright|cypress)\.config\.[cm]?[jt]s$|^karma\.conf\.[cm]?js$|^\.mocharc\.(json|ya?ml|[cm]?js)$/),
+  file('pytest', 'hasTests', 'Python', /(^|\/)(pytest\.ini|conftest\.py|tox\.ini|noxfile\.py)$/),
+  file('python-test-file', 'hasTests', 'Python', /(^|\/)(test_[^/]+|[^/]+_test)\.py$/),
+  file('go-test-file', 'hasTests', 'Go', /_test\.go$/),
+  dir('rust-tests', 'hasTests', 'Rust', /^(tests|benches)$/),
+  dir('jvm-test-source', 'hasTests', 'Java/Kotlin', /(^|\/)src\/test$/),
+  file('jvm-test-file', 'hasTests', 'Java/Kotlin', /Tests?\.(java|kt)$/),
+  dir('dotnet-test-project', 'hasTests', 'C#', /(^|\/)[^/]*\.Tests?$/),
+  file('dotnet-test-file', 'hasTests', 'C#', /Tests?\.cs$|\.Tests?\.csproj$/),
+
+  // TypeScript
+  file('tsconfig', 'hasTypeScript', 'JavaScript', /(^|\/)tsconfig(\.[\w-]+)?\.json$/),
+  file('ts-source', 'hasTypeScript', 'JavaScript', /(?<!\.d)\.(ts|tsx|mts|cts)$/),
+
+  // Linting / formatting
+  file('eslint', 'hasLinting', 'JavaScript', /^(\.eslintrc(\.[\w]+)?|eslint\.config\.[cm]?[jt]s)$/),
+  file('prettier', 'hasLinting', 'JavaScript', /^(\.prettierrc(\.[\w]+)?|prettier\.config\.[cm]?[jt]s)$/),
+  file('biome', 'hasLinting', 'JavaScript', /^biome\.jsonc?$/),
+  file('stylelint', 'hasLinting', 'JavaScript', /^(\.stylelintrc(\.[\w]+)?|stylelint\.config\.[cm]?js)$/),
+  file('oxlint', 'hasLinting', 'JavaScript', /^\.oxlintrc\.json$/),
+  file('python-linters', 'hasLinting', 'Python', /^(\.flake8|\.pylintrc|pylintrc|\.?ruff\.toml|mypy\.ini|\.mypy\.ini|\.isort\.cfg)$/),
+  file('golangci', 'hasLinting', 'Go', /^\.golangci\.(ya?ml|toml|json)$/),
+  file('rustfmt-clippy', 'hasLinting', 'Rust', /^\.?(rustfmt|clippy)\.toml$/),
+  file('jvm-linters', 'hasLinting', 'Java/Kotlin', /(^|\/)(checkstyle|pmd|spotbugs[\w-]*)\.xml$|(^|\/)detekt\.ya?ml$|^\.editorconfig-checker\.json$/),
+  file('dotnet-analyzers', 'hasLinting', 'C#', /^(stylecop\.json|\.globalconfig|Directory\.Build\.props)$/),
+  file('pre-commit', 'hasLinting', 'any', /^\.pre-commit-config\.ya?ml$/),
+];
+
+/**
+ * Manifests that identify an ecosystem
+ */
+const ECOSYSTEM_MANIFESTS: { ecosystem: string; pattern: RegExp }[] = [
+  { ecosystem: 'JavaScript', pattern: /^(package\.json|deno\.jsonc?)$/ },
+  { ecosystem: 'Python', pattern: /^(pyproject\.toml|setup\.py|setup\.cfg|requirements[\w-]*\.txt|Pipfile)$/ },
+  { ecosystem: 'Go', pattern: /^go\.mod$/ },
+  { ecosystem: 'Rust', pattern: /^Cargo\.toml$/ },
+  { ecosystem: 'Java/Kotlin', pattern: /^(pom\.xml|build\.gradle(\.kts)?|settings\.gradle(\.kts)?)$/ },
+  { ecosystem: 'C#', pattern: /\.(csproj|sln|fsproj)$/ },
+];
+
+/**
+ * Run every detector over a file tree
+ */
+export const detectCodeQuality = (entries: TreeEntry[]): CodeQuality => {
+  const evidence: Record<CodeQualityCheck, string[]> = {
+    hasCI: [],
+    hasTests: [],
+    hasTypeScript: [],
+    hasLinting: [],
+  };
+
+  entries.forEach(entry => {
+    TOOLING_DETECTORS.forEach(detector => {
+      const paths = evidence[detector.check];
+      if (detector.type === entry.type && paths.length < MAX_EVIDENCE && detector.pattern.test(entry.path)
+        && !paths.includes(entry.path)) {
+        paths.push(entry.path);
+      }
+    });
+  });
+
+  const ecosystems = ECOSYSTEM_MANIFESTS
+    .filter(m => entries.some(e => e.type === 'file' && m.pattern.test(e.path)))
+    .map(m => m.ecosystem);
+
+  return {
+    hasCI: evidence.hasCI.length > 0,
+    hasTests: evidence.hasTests.length > 0,
+    hasTypeScript: evidence.hasTypeScript.length > 0,
+    hasLinting: evidence.hasLinting.length > 0,
+    evidence,
+    ecosystems,
+  };
+};